@@ -1,51 +1,19 @@
 import * as vscode from 'vscode';
+import { getTokenRanges, getTokens } from './tokens';
 import { StringInfo } from './types';
 
-function getWordRanges(lineText: string): { start: number; end: number }[] {
-	const ranges: { start: number; end: number }[] = [];
-	let inWord = false;
-	let start = 0;
-
-	for (let i = 0; i <= lineText.length; i++) {
-		const isWhitespace = i === lineText.length || /\s/.test(lineText[i]);
-		if (!isWhitespace && !inWord) {
-			start = i;
-			inWord = true;
-		}
-		if (isWhitespace && inWord) {
-			ranges.push({ start, end: i });
-			inWord = false;
-		}
-	}
-
-	return ranges;
-}
-
 export function getCursorWordPosition(
 	stringInfo: StringInfo,
-	cursorPosition: vscode.Position
+	cursorPosition: vscode.Position,
+	whitespace: RegExp
 ): { wordIndex: number; charOffset: number } | null {
-	const words = stringInfo.content.trim().split(/\s+/).filter(word => word.length > 0);
+	const words = getTokens(stringInfo.content, whitespace);
 
 	if (!stringInfo.isMultiline) {
-		const contentStart = stringInfo.start.character + stringInfo.quote.length;
+		const contentStart = stringInfo.start.character + stringInfo.prefix.length + stringInfo.quote.length;
 		const cursorOffset = cursorPosition.character - contentStart;
-		const content = stringInfo.content.trim();
-
-		let currentPos = 0;
-		const wordPositions: { start: number; end: number; index: number }[] = [];
-
-		for (let i = 0; i < words.length; i++) {
-			const wordIndex = content.indexOf(words[i], currentPos);
-			if (wordIndex !== -1) {
-				wordPositions.push({
-					start: wordIndex,
-					end: wordIndex + words[i].length,
-					index: i
-				});
-				currentPos = wordIndex + words[i].length;
-			}
-		}
+		const wordPositions = getTokenRanges(stringInfo.content, whitespace)
+			.map((range, index) => ({ ...range, index }));
 
 		for (const wp of wordPositions) {
 			if (cursorOffset >= wp.start && cursorOffset <= wp.end) {
@@ -76,20 +44,20 @@ export function getCursorWordPosition(
 			return { wordIndex: words.length - 1, charOffset: words[words.length - 1].length };
 		}
 	} else {
-		const contentLines = stringInfo.content.split('\n');
+		const contentLines = stringInfo.content.split(/\r?\n/);
 		let wordCounter = 0;
 
 		for (let lineOffset = 0; lineOffset <= stringInfo.end.line - stringInfo.start.line; lineOffset++) {
 			const actualLine = stringInfo.start.line + lineOffset;
 			if (actualLine === cursorPosition.line) {
 				const lineText = contentLines[lineOffset] || '';
-				const ranges = getWordRanges(lineText);
+				const ranges = getTokenRanges(lineText, whitespace);
 				if (ranges.length === 0) {
 					return null;
 				}
 
 				const lineStartChar = actualLine === stringInfo.start.line
-					? stringInfo.start.character + stringInfo.quote.length
+					? stringInfo.start.character + stringInfo.prefix.length + stringInfo.quote.length
 					: 0;
 				const cursorOffset = cursorPosition.character - lineStartChar;
 
@@ -135,24 +103,36 @@ export function getCursorWordPosition(
 			}
 
 			const lineText = contentLines[lineOffset] || '';
-			wordCounter += getWordRanges(lineText).length;
+			wordCounter += getTokenRanges(lineText, whitespace).length;
 		}
 	}
 
 	return null;
 }
 
+function findWordOccurrence(text: string, word: string, occurrence: number): number {
+	const isBoundary = (char: string | undefined) => char === undefined || /[\s"'`]/.test(char);
+	let seen = 0;
+	for (let index = text.indexOf(word); index !== -1; index = text.indexOf(word, index + 1)) {
+		if (isBoundary(text[index - 1]) && isBoundary(text[index + word.length]) && seen++ === occurrence) {
+			return index;
+		}
+	}
+	return -1;
+}
+
 export function calculateNewCursorPosition(
 	stringInfo: StringInfo,
 	newText: string,
 	wordPosition: { wordIndex: number; charOffset: number } | null,
-	wasMultiline: boolean
+	wasMultiline: boolean,
+	whitespace: RegExp
 ): vscode.Position {
 	if (!wordPosition) {
 		return stringInfo.start;
 	}
 
-	const words = stringInfo.content.trim().split(/\s+/).filter(word => word.length > 0);
+	const words = getTokens(stringInfo.content, whitespace);
 	if (wordPosition.wordIndex >= words.length) {
 		return stringInfo.start;
 	}
@@ -160,28 +140,47 @@ export function calculateNewCursorPosition(
 	const targetWord = words[wordPosition.wordIndex];
 
 	if (!wasMultiline) {
-		const lines = newText.split('\n');
-		const quoteToken = lines.length > 0 ? lines[0].trim() : '';
-		let wordCounter = 0;
+		// Blank out the delimiters so tokens hugging them are found on their own.
+		const opening = stringInfo.splitDelimiters?.opening ?? newText.split(/\r?\n/)[0];
+		const closing = stringInfo.splitDelimiters?.closing ?? '';
+		const masked = ' '.repeat(opening.length) +
+			newText.substring(opening.length, newText.length - closing.length) +
+			' '.repeat(closing.length);
+		const lines = masked.split(/\r?\n/);
+		const tokens: { line: number; start: number; end: number; text: string }[] = [];
 		for (let i = 0; i < lines.length; i++) {
-			const trimmedLine = lines[i].trim();
-			if (!trimmedLine || (quoteToken && trimmedLine === quoteToken)) {
-				continue;
-			}
-			const ranges = getWordRanges(lines[i]);
-			if (ranges.length === 0) {
-				continue;
-			}
-			if (wordPosition.wordIndex < wordCounter + ranges.length) {
-				const range = ranges[wordPosition.wordIndex - wordCounter];
-				const line = stringInfo.start.line + i;
-				const character = range.start + Math.min(wordPosition.charOffset, range.end - range.start);
-				return new vscode.Position(line, character);
+			const lineStart = i === 0 ? stringInfo.start.character : 0;
+			for (const range of getTokenRanges(lines[i], whitespace)) {
+				tokens.push({
+					line: i,
+					start: lineStart + range.start,
+					end: lineStart + range.end,
+					text: lines[i].substring(range.start, range.end)
+				});
 			}
-			wordCounter += ranges.length;
+		}
+
+		// Layouts may reorder tokens, so look for the same occurrence of the
+		// target word before falling back to its index.
+		const occurrence = words.slice(0, wordPosition.wordIndex).filter(word => word === targetWord).length;
+		const target = tokens.filter(token => token.text === targetWord)[occurrence] ?? tokens[wordPosition.wordIndex];
+		if (target) {
+			const character = target.start + Math.min(wordPosition.charOffset, target.end - target.start);
+			return new vscode.Position(stringInfo.start.line + target.line, character);
 		}
 	} else {
-		const contentStart = stringInfo.start.character + stringInfo.quote.length;
+		const mergedIndex = newText.indexOf(words.join(' '));
+		if (mergedIndex === -1) {
+			const occurrence = words.slice(0, wordPosition.wordIndex).filter(word => word === targetWord).length;
+			const wordStart = findWordOccurrence(newText, targetWord, occurrence);
+			if (wordStart !== -1) {
+				const character = stringInfo.start.character + wordStart + Math.min(wordPosition.charOffset, targetWord.length);
+				return new vscode.Position(stringInfo.start.line, character);
+			}
+		}
+		const contentStart = stringInfo.start.character + (mergedIndex !== -1
+			? mergedIndex
+			: stringInfo.prefix.length + stringInfo.quote.length);
 		let offset = 0;
 		for (let i = 0; i < wordPosition.wordIndex; i++) {
 			offset += words[i].length + 1;
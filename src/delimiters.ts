@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { findSeparators, splitTokenRanges, trimWhitespace } from './tokens';
+import { DelimiterProfile, RecordedWhitespace } from './types';
+
+export const DELIMITER_PROFILE_NAMES = ['whitespace', 'comma', 'semicolon', 'pipe', 'custom'];
+
+// The ascii policy only splits on space, tab and line breaks, so deliberate
+// no-break and ideographic spaces (`10\u00a0km`) stay inside their token.
+const WHITESPACE_CLASSES: { [policy: string]: string } = {
+	ascii: '[ \\t\\r\\n]',
+	unicode: '\\s'
+};
+
+const BUILT_IN_PROFILES: { [name: string]: { pattern: (ws: string) => string; separator: string } } = {
+	whitespace: { pattern: ws => `${ws}+`, separator: ' ' },
+	comma: { pattern: ws => `${ws}*,${ws}*`, separator: ', ' },
+	semicolon: { pattern: ws => `${ws}*;${ws}*`, separator: '; ' },
+	pipe: { pattern: ws => `${ws}*\\|${ws}*`, separator: ' | ' }
+};
+
+function getWhitespaceClass(document: vscode.TextDocument): string {
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings', document);
+	return WHITESPACE_CLASSES[config.get<string>('whitespace', 'ascii')] || WHITESPACE_CLASSES.ascii;
+}
+
+export function getWhitespacePattern(document: vscode.TextDocument): RegExp {
+	return new RegExp(`${getWhitespaceClass(document)}+`);
+}
+
+export function getDelimiterProfile(document: vscode.TextDocument, name?: string): DelimiterProfile {
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings', document);
+	const profileName = name || config.get<string>('delimiter', 'whitespace');
+	const ws = getWhitespaceClass(document);
+	const whitespace = new RegExp(`${ws}+`);
+
+	if (profileName === 'custom') {
+		const source = config.get<string>('customDelimiter', '');
+		try {
+			if (source) {
+				return { pattern: new RegExp(source, 'g'), separator: ' ', whitespace };
+			}
+		} catch (e) {
+			vscode.window.showWarningMessage(`Invalid custom delimiter pattern: ${source}`);
+		}
+	}
+
+	const profile = BUILT_IN_PROFILES[profileName] || BUILT_IN_PROFILES.whitespace;
+	return { pattern: new RegExp(profile.pattern(ws), 'g'), separator: profile.separator, whitespace };
+}
+
+export function splitByDelimiter(
+	content: string,
+	profile: DelimiterProfile
+): { items: string[]; separator: string; separators: string[]; leading: string; trailing: string } {
+	const text = trimWhitespace(content, profile.whitespace);
+	const leading = content.substring(0, content.indexOf(text));
+	const trailing = content.substring(leading.length + text.length);
+	const separators = findSeparators(text, profile.pattern).map(range => text.substring(range.start, range.end));
+	const items = splitTokenRanges(text, profile.pattern).map(range => text.substring(range.start, range.end));
+
+	return { items, separator: separators[0] ?? profile.separator, separators, leading, trailing };
+}
+
+export function splitDelimitedLines(content: string, whitespace: RegExp): string[] {
+	return splitTokenRanges(content, /\r?\n/)
+		.map(range => trimWhitespace(content.substring(range.start, range.end), whitespace).replace(/[ \t]*\r?\n[ \t]*/g, ' '))
+		.filter(line => line.length > 0);
+}
+
+export function joinDelimitedLines(lines: string[], separator: string): string {
+	const mark = separator.trim();
+	return lines
+		.map((line, index) => mark && index < lines.length - 1 && line.endsWith(mark)
+			? line.substring(0, line.length - mark.length).trimEnd()
+			: line)
+		.join(separator);
+}
+
+export function joinWithRecordedWhitespace(whitespace: RecordedWhitespace): string {
+	const { items, separators } = whitespace;
+	const body = items.map((item, index) => item + (index < items.length - 1 ? separators[index] ?? '' : '')).join('');
+	return whitespace.leading + body + whitespace.trailing;
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import { getWhitespacePattern } from './delimiters';
+import { isInJSXAttribute } from './jsx';
+import { flattenTokens, getDocumentStringTokens } from './parsing';
+import { getLanguageIdAt } from './regions';
+import { getConflictKey } from './tailwindOrder';
+import { getTokenRanges } from './tokens';
+import { StringToken } from './types';
+
+const DIAGNOSTIC_SOURCE = 'split-spaced-strings';
+const DUPLICATE_CODE = 'duplicate-class';
+const CONFLICT_CODE = 'conflicting-class';
+
+const CLASS_ATTRIBUTE = /(?:^|[\s:])(?:class|className|class:list)\s*=\s*\{?\s*$/;
+const CLASS_HELPER_CALL = /\b(?:clsx|cn|classNames|classnames|twMerge|twJoin|cva)\(\s*(?:[^()]*,\s*)?$/;
+const CONTEXT_LENGTH = 120;
+const UPDATE_DELAY = 200;
+
+// Languages that can contain class attributes or class helper calls.
+const CLASS_LANGUAGES = new Set([
+	'javascript',
+	'typescript',
+	'javascriptreact',
+	'typescriptreact',
+	'html',
+	'vue',
+	'svelte',
+	'astro',
+	'markdown',
+	'php',
+	'erb',
+	'blade',
+	'handlebars',
+	'twig',
+	'razor'
+]);
+
+let diagnosticCollection: vscode.DiagnosticCollection | null = null;
+const pendingUpdates = new Map<string, ReturnType<typeof setTimeout>>();
+
+export function createDiagnosticCollection(): vscode.DiagnosticCollection {
+	diagnosticCollection = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+	return diagnosticCollection;
+}
+
+function isClassString(document: vscode.TextDocument, text: string, token: StringToken): boolean {
+	const context = text.substring(Math.max(0, token.start - CONTEXT_LENGTH), token.start);
+	if (CLASS_HELPER_CALL.test(context)) {
+		return true;
+	}
+	if (!CLASS_ATTRIBUTE.test(context)) {
+		return false;
+	}
+
+	const languageId = getLanguageIdAt(document, token.start);
+	const isJsx = languageId === 'javascriptreact' || languageId === 'typescriptreact';
+	return !isJsx || isInJSXAttribute(document, document.positionAt(token.start));
+}
+
+function getClassDiagnostics(document: vscode.TextDocument, text: string, token: StringToken): vscode.Diagnostic[] {
+	const content = text.substring(token.contentStart, token.contentEnd);
+	const classes = getTokenRanges(content, getWhitespacePattern(document)).map(range => ({
+		name: content.substring(range.start, range.end),
+		range: new vscode.Range(
+			document.positionAt(token.contentStart + range.start),
+			document.positionAt(token.contentStart + range.end)
+		)
+	}));
+
+	const diagnostics: vscode.Diagnostic[] = [];
+	const seen = new Set<string>();
+	const lastByKey = new Map<string, string>();
+	for (const cls of classes) {
+		const key = getConflictKey(cls.name);
+		if (key !== null) {
+			lastByKey.set(key, cls.name);
+		}
+	}
+
+	for (const cls of classes) {
+		if (seen.has(cls.name)) {
+			const diagnostic = new vscode.Diagnostic(cls.range, `Duplicate class '${cls.name}'`, vscode.DiagnosticSeverity.Warning);
+			diagnostic.code = DUPLICATE_CODE;
+			diagnostic.source = DIAGNOSTIC_SOURCE;
+			diagnostics.push(diagnostic);
+			continue;
+		}
+		seen.add(cls.name);
+
+		const key = getConflictKey(cls.name);
+		const last = key !== null ? lastByKey.get(key) : undefined;
+		if (last !== undefined && last !== cls.name) {
+			const diagnostic = new vscode.Diagnostic(
+				cls.range,
+				`Class '${cls.name}' conflicts with '${last}'`,
+				vscode.DiagnosticSeverity.Warning
+			);
+			diagnostic.code = CONFLICT_CODE;
+			diagnostic.source = DIAGNOSTIC_SOURCE;
+			diagnostics.push(diagnostic);
+		}
+	}
+
+	return diagnostics;
+}
+
+export function updateClassDiagnostics(document: vscode.TextDocument): void {
+	if (!diagnosticCollection || document.uri.scheme === 'output') {
+		return;
+	}
+
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings', document);
+	if (!CLASS_LANGUAGES.has(document.languageId) || !config.get<boolean>('classDiagnostics', true)) {
+		diagnosticCollection.delete(document.uri);
+		return;
+	}
+
+	const text = document.getText();
+	const diagnostics = flattenTokens(getDocumentStringTokens(document))
+		.filter(token => isClassString(document, text, token))
+		.flatMap(token => getClassDiagnostics(document, text, token));
+	diagnosticCollection.set(document.uri, diagnostics);
+}
+
+/**
+ * Updates the diagnostics once edits to the document pause, so a burst of
+ * keystrokes rescans the document only once.
+ */
+export function scheduleClassDiagnostics(document: vscode.TextDocument): void {
+	if (!CLASS_LANGUAGES.has(document.languageId)) {
+		return;
+	}
+
+	const uri = document.uri.toString();
+	clearTimeout(pendingUpdates.get(uri));
+	pendingUpdates.set(uri, setTimeout(() => {
+		pendingUpdates.delete(uri);
+		updateClassDiagnostics(document);
+	}, UPDATE_DELAY));
+}
+
+export function clearClassDiagnosticsForUri(uri: vscode.Uri): void {
+	const key = uri.toString();
+	clearTimeout(pendingUpdates.get(key));
+	pendingUpdates.delete(key);
+	diagnosticCollection?.delete(uri);
+}
+
+export function cancelPendingClassDiagnostics(): void {
+	pendingUpdates.forEach(timer => clearTimeout(timer));
+	pendingUpdates.clear();
+}
+
+export function getClassDiagnosticsForUri(uri: vscode.Uri): readonly vscode.Diagnostic[] {
+	return diagnosticCollection?.get(uri) ?? [];
+}
+
+// Removes a class along with the whitespace that separates it from its
+// neighbours, or its whole line when it is the only class on the line.
+function getRemovalRange(document: vscode.TextDocument, range: vscode.Range): vscode.Range {
+	const line = document.lineAt(range.start.line);
+	const before = line.text.substring(0, range.start.character);
+	const after = line.text.substring(range.end.character);
+
+	if (before.trim() === '' && after.trim() === '' && range.start.line < document.lineCount - 1) {
+		return line.rangeIncludingLineBreak;
+	}
+
+	if (/[^\s"'`]\s+$/.test(before)) {
+		const leading = before.length - before.trimEnd().length;
+		return new vscode.Range(range.start.translate(0, -leading), range.end);
+	}
+	const trailing = after.length - after.trimStart().length;
+	return new vscode.Range(range.start, range.end.translate(0, trailing));
+}
+
+function createRemoveAction(
+	document: vscode.TextDocument,
+	title: string,
+	diagnostics: vscode.Diagnostic[]
+): vscode.CodeAction {
+	const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+	action.edit = new vscode.WorkspaceEdit();
+	for (const diagnostic of diagnostics) {
+		action.edit.delete(document.uri, getRemovalRange(document, diagnostic.range));
+	}
+	action.diagnostics = diagnostics;
+	return action;
+}
+
+export const classDiagnosticsCodeActionProvider: vscode.CodeActionProvider = {
+	provideCodeActions(document, _range, context) {
+		const actions: vscode.CodeAction[] = [];
+		const all = getClassDiagnosticsForUri(document.uri);
+
+		for (const diagnostic of context.diagnostics) {
+			if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+				continue;
+			}
+			const name = document.getText(diagnostic.range);
+			if (diagnostic.code === DUPLICATE_CODE) {
+				const action = createRemoveAction(document, `Remove duplicate class '${name}'`, [diagnostic]);
+				action.isPreferred = true;
+				actions.push(action);
+				const duplicates = all.filter(d => d.code === DUPLICATE_CODE);
+				if (duplicates.length > 1) {
+					actions.push(createRemoveAction(document, 'Remove all duplicate classes', duplicates));
+				}
+			} else if (diagnostic.code === CONFLICT_CODE) {
+				const action = createRemoveAction(document, `Remove '${name}' and keep the last conflicting class`, [diagnostic]);
+				action.isPreferred = true;
+				actions.push(action);
+			}
+		}
+
+		return actions;
+	}
+};
@@ -0,0 +1,302 @@
+import * as vscode from 'vscode';
+import { InterpolationSegment, splitCSharpInterpolation } from './rawLiterals';
+import { LiteralForm } from './types';
+
+// Interpolation holes are compared by their expression text, wrapped in a
+// character that cannot appear in decoded literal text.
+const HOLE = '\u0000';
+
+const NAMED_ESCAPES: { [ch: string]: string } = {
+	n: '\n',
+	t: '\t',
+	r: '\r',
+	b: '\b',
+	f: '\f',
+	v: '\v',
+	a: '\x07',
+	e: '\x1b'
+};
+
+// Python and PHP keep the backslash of an unrecognized escape.
+const PYTHON_ESCAPABLE = '\r\n\\\'"abfnrtvxuU01234567';
+const PHP_ESCAPABLE = '\\$"efnrtvxu01234567';
+
+interface EscapeModel {
+	raw?: boolean;
+	introducer?: string;
+	// When set, only these characters can follow the introducer; before any
+	// other character the backslash is literal text.
+	escapable?: string;
+	named?: { [ch: string]: string };
+	doubledBraces?: boolean;
+	findHoleEnd?: (content: string, index: number) => number;
+}
+
+function findClosing(content: string, index: number, open: string, close: string): number {
+	let depth = 1;
+	for (let i = index; i < content.length; i++) {
+		if (content[i] === open) {
+			depth++;
+		} else if (content[i] === close && --depth === 0) {
+			return i + 1;
+		}
+	}
+	return -1;
+}
+
+function bracedHole(opener: string, open = '{', close = '}'): (content: string, index: number) => number {
+	return (content, index) => content.startsWith(opener, index)
+		? findClosing(content, index + opener.length, open, close)
+		: -1;
+}
+
+function variableHole(sigil: string): (content: string, index: number) => number {
+	return (content, index) => {
+		const match = content[index] === sigil ? /^[A-Za-z_]\w*/.exec(content.substring(index + 1)) : null;
+		return match ? index + 1 + match[0].length : -1;
+	};
+}
+
+function anyHole(...finders: ((content: string, index: number) => number)[]): (content: string, index: number) => number {
+	return (content, index) => {
+		for (const find of finders) {
+			const end = find(content, index);
+			if (end !== -1) {
+				return end;
+			}
+		}
+		return -1;
+	};
+}
+
+function markHole(expression: string): string {
+	return HOLE + expression.replace(/\s+/g, '') + HOLE;
+}
+
+function decodeNumeric(content: string, index: number): { text: string; length: number } | null {
+	const match = /^(?:x([0-9a-fA-F]{1,2})|u\{([0-9a-fA-F]+)\}|u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8})|([0-7]{1,3}))/
+		.exec(content.substring(index));
+	if (!match) {
+		return null;
+	}
+	const code = match[5] !== undefined
+		? parseInt(match[5], 8)
+		: parseInt(match[1] ?? match[2] ?? match[3] ?? match[4], 16);
+	return code > 0x10ffff ? null : { text: String.fromCodePoint(code), length: match[0].length };
+}
+
+function decode(content: string, model: EscapeModel): string {
+	const introducer = model.introducer ?? '\\';
+	let result = '';
+
+	for (let i = 0; i < content.length; i++) {
+		if (model.doubledBraces && (content.startsWith('{{', i) || content.startsWith('}}', i))) {
+			result += content[i];
+			i++;
+			continue;
+		}
+
+		const holeEnd = model.findHoleEnd ? model.findHoleEnd(content, i) : -1;
+		if (holeEnd !== -1) {
+			result += markHole(content.substring(i, holeEnd));
+			i = holeEnd - 1;
+			continue;
+		}
+
+		if (model.raw || !content.startsWith(introducer, i) || i + introducer.length >= content.length) {
+			result += content[i];
+			continue;
+		}
+
+		const index = i + introducer.length;
+		const ch = content[index];
+		if (model.escapable !== undefined && !model.escapable.includes(ch)) {
+			result += content[i];
+			continue;
+		}
+
+		if (ch === '\r' || ch === '\n') {
+			i = index + (ch === '\r' && content[index + 1] === '\n' ? 1 : 0);
+			continue;
+		}
+
+		const named = model.named?.[ch] ?? NAMED_ESCAPES[ch];
+		const numeric = named === undefined ? decodeNumeric(content, index) : null;
+		if (named !== undefined) {
+			result += named;
+			i = index;
+		} else if (numeric) {
+			result += numeric.text;
+			i = index + numeric.length - 1;
+		} else {
+			result += ch;
+			i = index;
+		}
+	}
+
+	return result;
+}
+
+function decodeSegments(segments: InterpolationSegment[], decodeLiteral: (text: string) => string): string {
+	return segments.map(segment => segment.isHole ? markHole(segment.text) : decodeLiteral(segment.text)).join('');
+}
+
+function getHeredocKind(quote: string): { isHeredoc: boolean; quoted: string } {
+	const match = /^(<<<|<<[~-]?)[ \t]*(['"`]?)/.exec(quote);
+	return { isHeredoc: match !== null, quoted: match ? match[2] : '' };
+}
+
+function decodeCSharp(form: LiteralForm): string {
+	const dollars = form.prefix.split('$').length - 1;
+	if (form.quote.length >= 3) {
+		return dollars > 0
+			? decodeSegments(splitCSharpInterpolation(form.content, dollars, true), text => text)
+			: form.content;
+	}
+
+	const isVerbatim = form.prefix.includes('@');
+	const decodeLiteral = (text: string) => isVerbatim ? text.replace(/""/g, '"') : decode(text, {});
+	return dollars > 0
+		? decodeSegments(splitCSharpInterpolation(form.content, 1, false), decodeLiteral)
+		: decodeLiteral(form.content);
+}
+
+// Indentation stripping in text blocks, squiggly heredocs and multi-line
+// Swift and C# literals only removes whitespace, which the comparison
+// ignores, so literals are decoded without it.
+function decodeLiteralValue(languageId: string, form: LiteralForm): string {
+	const { content, prefix, quote } = form;
+
+	switch (languageId) {
+		case 'javascript':
+		case 'typescript':
+		case 'javascriptreact':
+		case 'typescriptreact':
+			return decode(content, quote === '`' ? { findHoleEnd: bracedHole('${') } : {});
+		case 'python':
+			return decode(content, {
+				raw: /r/i.test(prefix),
+				escapable: PYTHON_ESCAPABLE,
+				doubledBraces: /f/i.test(prefix),
+				findHoleEnd: /f/i.test(prefix) ? bracedHole('{') : undefined
+			});
+		case 'go':
+			return quote === '`' ? content.replace(/\r/g, '') : decode(content, {});
+		case 'java':
+			return decode(content, { named: { s: ' ' } });
+		case 'kotlin': {
+			const findHoleEnd = anyHole(bracedHole('${'), variableHole('$'));
+			const decoded = decode(content, { raw: quote === '"""', findHoleEnd });
+			return decoded.split(markHole("${'$'}")).join('$');
+		}
+		case 'csharp':
+			return decodeCSharp(form);
+		case 'rust':
+			return prefix.includes('r') ? content : decode(content, {});
+		case 'c':
+		case 'cpp':
+			return prefix.includes('R') ? content : decode(content, {});
+		case 'lua':
+			return quote.startsWith('[') ? content : decode(content, {});
+		case 'swift': {
+			const introducer = '\\' + prefix;
+			return decode(content, { introducer, findHoleEnd: bracedHole(introducer + '(', '(', ')') });
+		}
+		case 'ruby': {
+			const heredoc = getHeredocKind(quote);
+			if (quote === "'" || heredoc.quoted === "'") {
+				return heredoc.isHeredoc ? content : decode(content, { escapable: "\\'" });
+			}
+			return decode(content, { findHoleEnd: bracedHole('#{') });
+		}
+		case 'php': {
+			const heredoc = getHeredocKind(quote);
+			if (quote === "'" || heredoc.quoted === "'") {
+				return heredoc.isHeredoc ? content : decode(content, { escapable: "\\'" });
+			}
+			return decode(content, {
+				escapable: PHP_ESCAPABLE,
+				findHoleEnd: anyHole(bracedHole('{$'), bracedHole('${'), variableHole('$'))
+			});
+		}
+		case 'shellscript': {
+			const heredoc = getHeredocKind(quote);
+			if (quote === "'" || heredoc.quoted) {
+				return heredoc.isHeredoc ? content : content.split("'\\''").join("'");
+			}
+			return decode(content, {
+				escapable: heredoc.isHeredoc ? '$`\\\n' : '$`"\\\n',
+				findHoleEnd: anyHole(bracedHole('${'), bracedHole('$(', '(', ')'), variableHole('$'))
+			});
+		}
+		default:
+			return content;
+	}
+}
+
+// The delimiter mark is its own token, so moving whitespace around it, as a
+// split on commas does, keeps the tokens the same.
+function getValueTokens(value: string, whitespace: RegExp, mark: string): string[] {
+	const tokens = value.split(whitespace).filter(token => token.length > 0);
+	if (mark === '') {
+		return tokens;
+	}
+	return tokens
+		.flatMap(token => token.split(mark).flatMap((part, index) => index === 0 ? [part] : [mark, part]))
+		.filter(token => token.length > 0);
+}
+
+function describeToken(token: string | undefined): string {
+	if (token === undefined) {
+		return 'nothing';
+	}
+	const text = `"${token.split(HOLE).join('')}"`;
+	return token.includes(HOLE) ? `the interpolation ${text}` : text;
+}
+
+/**
+ * Compares the runtime values of two literals of the same string token by
+ * token and describes the first difference other than whitespace, or returns
+ * null when the values match. Interpolation holes are opaque and only
+ * compared by their expression text.
+ */
+export function findValueChange(
+	languageId: string,
+	before: LiteralForm,
+	after: LiteralForm,
+	whitespace: RegExp,
+	mark: string,
+	allowReorder: boolean
+): string | null {
+	const beforeTokens = getValueTokens(decodeLiteralValue(languageId, before), whitespace, mark);
+	const afterTokens = getValueTokens(decodeLiteralValue(languageId, after), whitespace, mark);
+	if (allowReorder) {
+		beforeTokens.sort();
+		afterTokens.sort();
+	}
+
+	if (beforeTokens.length === afterTokens.length && beforeTokens.every((token, i) => token === afterTokens[i])) {
+		return null;
+	}
+
+	let index = 0;
+	while (index < beforeTokens.length && beforeTokens[index] === afterTokens[index]) {
+		index++;
+	}
+	return `${describeToken(beforeTokens[index])} would become ${describeToken(afterTokens[index])}`;
+}
+
+/**
+ * Reports a value change as the `equivalenceCheck` setting asks and returns
+ * whether the edit should still be applied.
+ */
+export function confirmValueChange(document: vscode.TextDocument, action: string, change: string): boolean {
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings', document);
+	if (config.get<string>('equivalenceCheck', 'warn') === 'abort') {
+		vscode.window.showWarningMessage(`${action} cancelled because it would change the string's value: ${change}`);
+		return false;
+	}
+
+	vscode.window.showWarningMessage(`${action} changed the string's value, not only its whitespace: ${change}`);
+	return true;
+}
@@ -0,0 +1,231 @@
+interface RequoteRules {
+	// Characters whose backslash escape is dropped because the target quote
+	// does not need it.
+	unescape: string;
+	// Sequences that gain a backslash because the target quote would read
+	// them as syntax.
+	escape: string[];
+	// Escapes the target quote does not accept, matched after the backslash.
+	reject?: RegExp;
+	holeOpener?: string;
+}
+
+function findClosingBrace(content: string, index: number): number {
+	let depth = 1;
+	for (let i = index; i < content.length; i++) {
+		if (content[i] === '{') {
+			depth++;
+		} else if (content[i] === '}' && --depth === 0) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function requote(content: string, rules: RequoteRules): string | null {
+	let result = '';
+	for (let i = 0; i < content.length; i++) {
+		const ch = content[i];
+
+		if (rules.holeOpener && content.startsWith(rules.holeOpener, i)) {
+			if (rules.holeOpener === '{' && content[i + 1] === '{') {
+				result += '{{';
+				i++;
+				continue;
+			}
+			const end = findClosingBrace(content, i + rules.holeOpener.length);
+			if (end === -1) {
+				return null;
+			}
+			result += content.substring(i, end + 1);
+			i = end;
+			continue;
+		}
+
+		if (ch === '\\' && i + 1 < content.length) {
+			if (rules.reject && rules.reject.test(content.substring(i + 1))) {
+				return null;
+			}
+			const escaped = content[i + 1];
+			result += rules.unescape.includes(escaped) ? escaped : ch + escaped;
+			i++;
+			continue;
+		}
+
+		const sequence = rules.escape.find(candidate => content.startsWith(candidate, i));
+		if (sequence) {
+			result += '\\' + sequence;
+			i += sequence.length - 1;
+		} else {
+			result += ch;
+		}
+	}
+	return result;
+}
+
+// A decoded character can only be written literally if it is visible, so
+// whitespace and control characters never turn into token separators.
+function decodeCodePoint(code: number): string | null {
+	if (code > 0x10ffff) {
+		return null;
+	}
+	const ch = String.fromCodePoint(code);
+	return /^[^\s\p{C}]$/u.test(ch) ? ch : null;
+}
+
+function decodeNumericEscape(content: string, index: number): { text: string; length: number } | null {
+	const match = /^(?:x([0-9a-fA-F]{2})|([0-7]{3})|u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8}))/.exec(content.substring(index));
+	if (!match) {
+		return null;
+	}
+	const isByte = match[1] !== undefined || match[2] !== undefined;
+	const code = parseInt(match[1] ?? match[2] ?? match[3] ?? match[4], match[2] !== undefined ? 8 : 16);
+	const text = isByte && code >= 0x80 ? null : decodeCodePoint(code);
+	return text === null ? null : { text, length: match[0].length };
+}
+
+function toGoRawString(content: string): string | null {
+	let result = '';
+	for (let i = 0; i < content.length; i++) {
+		const ch = content[i];
+		if (ch === '`') {
+			return null;
+		}
+		if (ch !== '\\') {
+			result += ch;
+			continue;
+		}
+
+		const escaped = content[i + 1];
+		if (escaped === '\\' || escaped === '"') {
+			result += escaped;
+			i++;
+			continue;
+		}
+		const decoded = decodeNumericEscape(content, i + 1);
+		if (!decoded || decoded.text === '`') {
+			return null;
+		}
+		result += decoded.text;
+		i += decoded.length;
+	}
+	return result;
+}
+
+function fromGoRawString(content: string): string {
+	return content
+		.replace(/\r/g, '')
+		.replace(/["\\]/g, '\\$&')
+		.replace(/\t/g, '\\t')
+		.replace(/\n/g, '\\n');
+}
+
+// Kotlin's triple-quoted strings are raw, so a literal `$` before an
+// identifier or brace has to be written as the `${'$'}` template.
+const KOTLIN_DOLLAR = "${'$'}";
+
+function toKotlinRawString(content: string): string | null {
+	let result = '';
+	for (let i = 0; i < content.length; i++) {
+		const ch = content[i];
+		if (content.startsWith('${', i)) {
+			const end = findClosingBrace(content, i + 2);
+			if (end === -1) {
+				return null;
+			}
+			result += content.substring(i, end + 1);
+			i = end;
+			continue;
+		}
+		if (ch !== '\\') {
+			result += ch;
+			continue;
+		}
+
+		const escaped = content[i + 1];
+		if (escaped === '$') {
+			result += /[A-Za-z_{]/.test(content[i + 2] ?? '') ? KOTLIN_DOLLAR : '$';
+			i++;
+		} else if ('\\"\''.includes(escaped)) {
+			result += escaped;
+			i++;
+		} else {
+			const decoded = escaped === 'u' ? decodeNumericEscape(content, i + 1) : null;
+			if (!decoded) {
+				return null;
+			}
+			result += decoded.text;
+			i += decoded.length;
+		}
+	}
+	return result.includes('"""') ? null : result;
+}
+
+function fromKotlinRawString(content: string): string {
+	let result = '';
+	for (let i = 0; i < content.length; i++) {
+		if (content.startsWith(KOTLIN_DOLLAR, i)) {
+			result += '\\$';
+			i += KOTLIN_DOLLAR.length - 1;
+		} else if (content.startsWith('${', i) && findClosingBrace(content, i + 2) !== -1) {
+			const end = findClosingBrace(content, i + 2);
+			result += content.substring(i, end + 1);
+			i = end;
+		} else {
+			result += content[i] === '"' || content[i] === '\\' ? '\\' + content[i] : content[i];
+		}
+	}
+	return result;
+}
+
+function hasTemplateHole(content: string): boolean {
+	return /\$\{/.test(content.replace(/\\[\s\S]/g, ''));
+}
+
+/**
+ * Rewrites the body of a string literal for another quote of the same
+ * language so the string keeps its runtime value. Returns null when the
+ * target quote cannot express that value.
+ */
+export function reencodeContent(
+	languageId: string,
+	content: string,
+	prefix: string,
+	fromQuote: string,
+	toQuote: string
+): string | null {
+	if (fromQuote === toQuote) {
+		return content;
+	}
+
+	switch (languageId) {
+		case 'javascript':
+		case 'typescript':
+		case 'javascriptreact':
+		case 'typescriptreact':
+			if (toQuote === '`') {
+				return requote(content, { unescape: fromQuote, escape: ['`', '${'], reject: /^(?:[1-9]|0\d)/ });
+			}
+			return hasTemplateHole(content) ? null : requote(content, { unescape: '`$', escape: [toQuote] });
+		case 'python': {
+			const from = fromQuote[0];
+			const to = toQuote[0];
+			if (/r/i.test(prefix)) {
+				return !content.includes(to) || (from === to && toQuote.length === 3) ? content : null;
+			}
+			return requote(content, {
+				unescape: from === to ? '' : from,
+				escape: [to],
+				holeOpener: /f/i.test(prefix) ? '{' : undefined
+			});
+		}
+		case 'java':
+			return requote(content, { unescape: '', escape: ['"'] });
+		case 'go':
+			return toQuote === '`' ? toGoRawString(content) : fromGoRawString(content);
+		case 'kotlin':
+			return toQuote === '"""' ? toKotlinRawString(content) : fromKotlinRawString(content);
+		default:
+			return content;
+	}
+}
@@ -1,7 +1,18 @@
 import * as vscode from 'vscode';
 import { calculateNewCursorPosition, getCursorWordPosition } from './cursor';
+import { DELIMITER_PROFILE_NAMES, getWhitespacePattern } from './delimiters';
+import {
+	cancelPendingClassDiagnostics,
+	classDiagnosticsCodeActionProvider,
+	clearClassDiagnosticsForUri,
+	createDiagnosticCollection,
+	scheduleClassDiagnostics,
+	updateClassDiagnostics
+} from './diagnostics';
 import { findStringAtCursor } from './parsing';
+import { clearEmbeddedRegionsForUri } from './regions';
 import { mergeString, splitString } from './splitMerge';
+import { clearSourceFileCacheForUri } from './syntaxTree';
 import {
 	applyAutoCollapseOnSave,
 	clearAllTrackedStrings,
@@ -15,13 +26,15 @@ import {
 	updateDecorations,
 	updateTrackedStringsOnDocumentChange
 } from './tracking';
+import { clearAllTokenIndexes, clearTokenIndexForUri, recordDocumentChange } from './tokenIndex';
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log('Extension "split-spaced-strings" is now active!');
 
 	const decorationType = createDecorationType();
+	const diagnosticCollection = createDiagnosticCollection();
 
-	const disposable = vscode.commands.registerCommand('split-spaced-strings.toggleSplit', async () => {
+	const disposable = vscode.commands.registerCommand('split-spaced-strings.toggleSplit', async (args?: { delimiter?: string }) => {
 		const editor = vscode.window.activeTextEditor;
 		if (!editor) {
 			return;
@@ -40,15 +53,22 @@ export function activate(context: vscode.ExtensionContext) {
 			const trackedMatch = findTrackedStringMatch(document, stringInfo);
 			if (trackedMatch) {
 				stringInfo.originalQuote = trackedMatch.originalQuote;
+				stringInfo.separator = trackedMatch.separator;
+				stringInfo.whitespace = trackedMatch.whitespace;
 			}
 		}
 
-		const wordPosition = getCursorWordPosition(stringInfo, position);
+		const whitespace = getWhitespacePattern(document);
+		const wordPosition = getCursorWordPosition(stringInfo, position, whitespace);
 		const wasMultiline = stringInfo.isMultiline;
 
+		const delimiter = args && args.delimiter;
 		const newText = stringInfo.isMultiline
-			? mergeString(stringInfo, document)
-			: splitString(stringInfo, document);
+			? mergeString(stringInfo, document, delimiter)
+			: splitString(stringInfo, document, delimiter);
+		if (newText === null) {
+			return;
+		}
 
 		const editSuccess = await editor.edit(editBuilder => {
 			const range = new vscode.Range(stringInfo.start, stringInfo.end);
@@ -64,11 +84,13 @@ export function activate(context: vscode.ExtensionContext) {
 			} else {
 				const searchPosition = new vscode.Position(
 					stringInfo.start.line,
-					stringInfo.start.character + stringInfo.quote.length
+					stringInfo.start.character + stringInfo.prefix.length + stringInfo.quote.length
 				);
 				const newStringInfo = findStringAtCursor(document, searchPosition);
 				if (newStringInfo && newStringInfo.isMultiline) {
 					newStringInfo.originalQuote = stringInfo.originalQuote || stringInfo.quote;
+					newStringInfo.separator = stringInfo.separator;
+					newStringInfo.whitespace = stringInfo.whitespace;
 					trackString(document, newStringInfo);
 				}
 			}
@@ -78,10 +100,17 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 		}
 
-		const newCursorPosition = calculateNewCursorPosition(stringInfo, newText, wordPosition, wasMultiline);
+		const newCursorPosition = calculateNewCursorPosition(stringInfo, newText, wordPosition, wasMultiline, whitespace);
 		editor.selection = new vscode.Selection(newCursorPosition, newCursorPosition);
 	});
 
+	const delimiterDisposable = vscode.commands.registerCommand('split-spaced-strings.toggleSplitWithDelimiter', async () => {
+		const delimiter = await vscode.window.showQuickPick(DELIMITER_PROFILE_NAMES, { placeHolder: 'Split and merge on' });
+		if (delimiter) {
+			await vscode.commands.executeCommand('split-spaced-strings.toggleSplit', { delimiter });
+		}
+	});
+
 	const saveDisposable = vscode.workspace.onWillSaveTextDocument(event => {
 		const config = vscode.workspace.getConfiguration('splitSpacedStrings');
 		const autoCollapse = config.get<boolean>('autoCollapseOnSave', false);
@@ -97,9 +126,30 @@ export function activate(context: vscode.ExtensionContext) {
 	});
 
 	const closeDisposable = vscode.workspace.onDidCloseTextDocument(document => {
-		clearTrackedStringsForUri(document.uri.toString());
+		const uri = document.uri.toString();
+		clearTrackedStringsForUri(uri);
+		clearTokenIndexForUri(uri);
+		clearSourceFileCacheForUri(uri);
+		clearEmbeddedRegionsForUri(uri);
+		clearClassDiagnosticsForUri(document.uri);
+	});
+
+	const openDisposable = vscode.workspace.onDidOpenTextDocument(document => {
+		updateClassDiagnostics(document);
+	});
+
+	const configurationDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+		if (event.affectsConfiguration('splitSpacedStrings.classDiagnostics')) {
+			vscode.workspace.textDocuments.forEach(updateClassDiagnostics);
+		}
 	});
 
+	const codeActionDisposable = vscode.languages.registerCodeActionsProvider(
+		{ scheme: '*' },
+		classDiagnosticsCodeActionProvider,
+		{ providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+	);
+
 	const editorChangeDisposable = vscode.window.onDidChangeActiveTextEditor(editor => {
 		const config = vscode.workspace.getConfiguration('splitSpacedStrings');
 		const autoCollapse = config.get<boolean>('autoCollapseOnSave', false);
@@ -110,6 +160,9 @@ export function activate(context: vscode.ExtensionContext) {
 	});
 
 	const documentChangeDisposable = vscode.workspace.onDidChangeTextDocument(event => {
+		recordDocumentChange(event);
+		scheduleClassDiagnostics(event.document);
+
 		const config = vscode.workspace.getConfiguration('splitSpacedStrings');
 		const autoCollapse = config.get<boolean>('autoCollapseOnSave', false);
 
@@ -125,23 +178,32 @@ export function activate(context: vscode.ExtensionContext) {
 	if (vscode.window.activeTextEditor && autoCollapse) {
 		updateDecorations(vscode.window.activeTextEditor);
 	}
+	vscode.workspace.textDocuments.forEach(updateClassDiagnostics);
 
 	context.subscriptions.push(
 		disposable,
+		delimiterDisposable,
 		saveDisposable,
 		closeDisposable,
 		editorChangeDisposable,
 		documentChangeDisposable,
+		openDisposable,
+		configurationDisposable,
+		codeActionDisposable,
+		diagnosticCollection,
 		decorationType
 	);
 }
 
 export function deactivate() {
 	clearAllTrackedStrings();
+	clearAllTokenIndexes();
+	cancelPendingClassDiagnostics();
 }
 
 export const __test__ = {
 	applyAutoCollapseOnSave,
 	collapseTrackedStrings,
+	findStringAtCursor,
 	getLastDecorationRanges
 };
@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+
+export function getIndentOptions(document: vscode.TextDocument): { tabSize: number; insertSpaces: boolean } {
+	const editorConfig = vscode.workspace.getConfiguration('editor', document);
+	const options = vscode.window.visibleTextEditors.find(editor => editor.document === document)?.options;
+	return {
+		tabSize: typeof options?.tabSize === 'number' ? options.tabSize : editorConfig.get<number>('tabSize', 4),
+		insertSpaces: typeof options?.insertSpaces === 'boolean'
+			? options.insertSpaces
+			: editorConfig.get<boolean>('insertSpaces', true)
+	};
+}
+
+export function getColumnWidth(text: string, tabSize: number): number {
+	let width = 0;
+	for (const char of text) {
+		width = char === '\t' ? width + tabSize - (width % tabSize) : width + 1;
+	}
+	return width;
+}
+
+/**
+ * Returns the indentation for the lines between a split string's delimiters:
+ * the line's own indentation plus the continuation indent, or padding up to
+ * the string's column when tokens are aligned with the opening quote.
+ */
+export function getContinuationIndent(document: vscode.TextDocument, lineText: string, stringStart: number): string {
+	const lineIndent = lineText.substring(0, lineText.length - lineText.trimStart().length);
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings', document);
+	const { tabSize, insertSpaces } = getIndentOptions(document);
+
+	if (config.get<boolean>('alignToQuote', false)) {
+		const padding = getColumnWidth(lineText.substring(0, stringStart), tabSize) - getColumnWidth(lineIndent, tabSize);
+		return lineIndent + ' '.repeat(padding);
+	}
+
+	const continuationIndent = config.get<number | string>('continuationIndent', 1);
+	if (typeof continuationIndent === 'string') {
+		return lineIndent + continuationIndent;
+	}
+	const level = insertSpaces ? ' '.repeat(tabSize) : '\t';
+	return lineIndent + level.repeat(Math.max(0, Math.floor(continuationIndent)));
+}
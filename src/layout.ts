@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { getColumnWidth, getIndentOptions } from './indentation';
+import { splitTokenRanges } from './tokens';
+
+const DEFAULT_WORD_WRAP_COLUMN = 80;
+
+function getLineWidthLimit(document: vscode.TextDocument): number {
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings', document);
+	const maxLineLength = config.get<number>('maxLineLength', 0);
+	if (maxLineLength > 0) {
+		return maxLineLength;
+	}
+
+	const editorConfig = vscode.workspace.getConfiguration('editor', document);
+	const rulers = (editorConfig.get<(number | { column: number })[]>('rulers', []) || [])
+		.map(ruler => typeof ruler === 'number' ? ruler : ruler.column)
+		.filter(column => column > 0);
+	if (rulers.length > 0) {
+		return Math.min(...rulers);
+	}
+
+	return editorConfig.get<number>('wordWrapColumn', DEFAULT_WORD_WRAP_COLUMN);
+}
+
+/**
+ * Packs items onto lines no wider than `limit` columns including `indent`.
+ * Items too wide for an empty line get a line of their own.
+ */
+function fillLines(items: string[], separator: string, indent: string, limit: number, tabSize: number): string[][] {
+	const mark = separator.trim();
+	const indentWidth = getColumnWidth(indent, tabSize);
+	const lines: string[][] = [];
+	let current: string[] = [];
+	let width = indentWidth;
+
+	items.forEach((item, index) => {
+		const itemMark = index < items.length - 1 ? mark : '';
+		if (current.length > 0 && width + separator.length + item.length + itemMark.length > limit) {
+			lines.push(current);
+			current = [];
+			width = indentWidth;
+		}
+		width += current.length > 0 ? separator.length + item.length : item.length;
+		current.push(item);
+	});
+	if (current.length > 0) {
+		lines.push(current);
+	}
+
+	return lines;
+}
+
+const DEFAULT_VARIANT_ORDER = [
+	['sm', 'md', 'lg', 'xl', '2xl'],
+	['hover', 'focus', 'focus-visible', 'focus-within', 'active', 'disabled'],
+	['dark']
+];
+
+function getVariantPrefix(item: string): string | null {
+	const ranges = splitTokenRanges(item, /:/);
+	return ranges.length > 1 ? item.substring(ranges[0].start, ranges[0].end) : null;
+}
+
+/**
+ * Puts base utilities on the first line, then one line per variant group in
+ * `variantOrder`, then variants not listed there. Items keep their relative
+ * order within a line.
+ */
+function groupByVariant(items: string[], variantOrder: string[][]): string[][] {
+	const groups: string[][] = Array.from({ length: variantOrder.length + 2 }, () => []);
+
+	for (const item of items) {
+		const variant = getVariantPrefix(item);
+		if (variant === null) {
+			groups[0].push(item);
+			continue;
+		}
+		const groupIndex = variantOrder.findIndex(group => group.includes(variant));
+		groups[groupIndex === -1 ? groups.length - 1 : groupIndex + 1].push(item);
+	}
+
+	return groups.filter(group => group.length > 0);
+}
+
+export function reordersItems(document: vscode.TextDocument): boolean {
+	return vscode.workspace.getConfiguration('splitSpacedStrings', document).get<string>('layout', 'tokenPerLine') === 'groupByVariant';
+}
+
+export function layoutItems(items: string[], separator: string, indent: string, document: vscode.TextDocument): string[][] {
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings', document);
+	switch (config.get<string>('layout', 'tokenPerLine')) {
+		case 'fill':
+			return fillLines(items, separator, indent, getLineWidthLimit(document), getIndentOptions(document).tabSize);
+		case 'groupByVariant':
+			return groupByVariant(items, config.get<string[][]>('variantOrder', DEFAULT_VARIANT_ORDER));
+		default:
+			return items.map(item => [item]);
+	}
+}
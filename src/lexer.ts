@@ -0,0 +1,707 @@
+import { CommentSyntax, StringToken } from './types';
+
+interface StringOpener {
+	prefix: string;
+	quote: string;
+	closeQuote: string;
+	escape: 'backslash' | 'doubled' | 'none';
+	holeBraces: number;
+	holeOpen?: string;
+	holeClose?: string;
+	terminator?: RegExp;
+	singleLine?: boolean;
+	unclosedIsText?: boolean;
+}
+
+const QUOTE_TOKENS = ['"""', "'''", '`', '"', "'"];
+
+const C_STYLE_COMMENTS: CommentSyntax = {
+	lineComments: ['//'],
+	blockComments: [['/*', '*/']],
+	lineCommentsAtWordStart: false
+};
+
+const HASH_COMMENTS: CommentSyntax = {
+	lineComments: ['#'],
+	blockComments: [],
+	lineCommentsAtWordStart: false
+};
+
+const NO_COMMENTS: CommentSyntax = {
+	lineComments: [],
+	blockComments: [],
+	lineCommentsAtWordStart: false
+};
+
+export function getCommentSyntax(languageId: string): CommentSyntax {
+	switch (languageId) {
+		case 'javascript':
+		case 'typescript':
+		case 'javascriptreact':
+		case 'typescriptreact':
+		case 'java':
+		case 'kotlin':
+		case 'csharp':
+		case 'go':
+		case 'c':
+		case 'cpp':
+		case 'rust':
+		case 'swift':
+		case 'dart':
+		case 'scala':
+		case 'groovy':
+		case 'objective-c':
+		case 'jsonc':
+		case 'scss':
+		case 'less':
+			return C_STYLE_COMMENTS;
+		case 'css':
+			return { lineComments: [], blockComments: [['/*', '*/']], lineCommentsAtWordStart: false };
+		case 'php':
+			return { lineComments: ['//', '#'], blockComments: [['/*', '*/']], lineCommentsAtWordStart: false };
+		case 'python':
+		case 'ruby':
+		case 'perl':
+		case 'r':
+		case 'yaml':
+		case 'toml':
+		case 'makefile':
+		case 'dockerfile':
+		case 'elixir':
+		case 'coffeescript':
+		case 'powershell':
+			return HASH_COMMENTS;
+		case 'shellscript':
+			return { lineComments: ['#'], blockComments: [], lineCommentsAtWordStart: true };
+		case 'lua':
+			return { lineComments: ['--'], blockComments: [], longBracketComments: ['--'], lineCommentsAtWordStart: false };
+		case 'sql':
+			return { lineComments: ['--'], blockComments: [['/*', '*/']], lineCommentsAtWordStart: false };
+		case 'haskell':
+			return { lineComments: ['--'], blockComments: [['{-', '-}']], lineCommentsAtWordStart: false };
+		case 'html':
+		case 'xml':
+		case 'markdown':
+		case 'vue':
+		case 'svelte':
+			return { lineComments: [], blockComments: [['<!--', '-->']], lineCommentsAtWordStart: false };
+		default:
+			return NO_COMMENTS;
+	}
+}
+
+export function getStringPrefixes(languageId: string): string[] {
+	switch (languageId) {
+		case 'python':
+			return ['rb', 'br', 'fr', 'rf', 'r', 'u', 'b', 'f'];
+		default:
+			return [];
+	}
+}
+
+export function isEscaped(text: string, index: number): boolean {
+	let backslashCount = 0;
+	for (let i = index - 1; i >= 0 && text[i] === '\\'; i--) {
+		backslashCount++;
+	}
+	return backslashCount % 2 === 1;
+}
+
+function matchQuoteToken(text: string, index: number, tokens: string[]): string | null {
+	for (const token of tokens) {
+		if (text.startsWith(token, index)) {
+			return token;
+		}
+	}
+	return null;
+}
+
+function matchStringPrefix(text: string, index: number, prefixes: string[]): string {
+	if (prefixes.length === 0 || !/[a-zA-Z]/.test(text[index]) || isIdentifierBefore(text, index)) {
+		return '';
+	}
+
+	for (const prefix of prefixes) {
+		const candidate = text.substring(index, index + prefix.length);
+		if (candidate.toLowerCase() === prefix && matchQuoteToken(text, index + prefix.length, QUOTE_TOKENS)) {
+			return candidate;
+		}
+	}
+	return '';
+}
+
+function isIdentifierBefore(text: string, index: number): boolean {
+	return index > 0 && /[\w$]/.test(text[index - 1]);
+}
+
+function matchDefaultOpener(text: string, index: number, prefixes: string[]): StringOpener | null {
+	const prefix = matchStringPrefix(text, index, prefixes);
+	const quoteIndex = index + prefix.length;
+	const quote = matchQuoteToken(text, quoteIndex, QUOTE_TOKENS);
+	if (!quote || (quote.length === 1 && isEscaped(text, quoteIndex))) {
+		return null;
+	}
+	return { prefix, quote, closeQuote: quote, escape: 'backslash', holeBraces: 0 };
+}
+
+function isJsxAttributeValue(text: string, index: number): boolean {
+	if (text[index - 1] !== '=') {
+		return false;
+	}
+
+	let i = index - 2;
+	while (i >= 0 && /[\w$:-]/.test(text[i])) {
+		i--;
+	}
+	return i < index - 2 && i >= 0 && /\s/.test(text[i]);
+}
+
+function matchJavaScriptOpener(text: string, index: number): StringOpener | null {
+	const opener = matchDefaultOpener(text, index, []);
+	if (opener && opener.quote === '`') {
+		opener.holeOpen = '${';
+		opener.holeClose = '}';
+	} else if (opener) {
+		// Quoted JSX attribute values may span lines; other quotes may not.
+		opener.singleLine = !isJsxAttributeValue(text, index);
+		opener.unclosedIsText = true;
+	}
+	return opener;
+}
+
+function matchLongBracket(text: string, index: number): string | null {
+	const longBracket = /^\[(=*)\[/.exec(text.substring(index, index + 64));
+	return longBracket ? longBracket[1] : null;
+}
+
+function matchLuaOpener(text: string, index: number): StringOpener | null {
+	const level = matchLongBracket(text, index);
+	if (level !== null) {
+		return { prefix: '', quote: '[' + level + '[', closeQuote: ']' + level + ']', escape: 'none', holeBraces: 0 };
+	}
+
+	const quote = text[index];
+	if ((quote !== '"' && quote !== "'") || isEscaped(text, index)) {
+		return null;
+	}
+	return { prefix: '', quote, closeQuote: quote, escape: 'backslash', holeBraces: 0 };
+}
+
+function matchSwiftOpener(text: string, index: number): StringOpener | null {
+	if (isEscaped(text, index)) {
+		return null;
+	}
+
+	const match = /^(#*)("""|")/.exec(text.substring(index, index + 64));
+	if (!match) {
+		return null;
+	}
+
+	const hashes = match[1];
+	return {
+		prefix: hashes,
+		quote: match[2],
+		closeQuote: match[2] + hashes,
+		escape: hashes ? 'none' : 'backslash',
+		holeBraces: 0,
+		holeOpen: '\\' + hashes + '(',
+		holeClose: ')'
+	};
+}
+
+function matchRustOpener(text: string, index: number): StringOpener | null {
+	if (isIdentifierBefore(text, index) || isEscaped(text, index)) {
+		return null;
+	}
+
+	const match = /^(br|cr|b|c|r)?(#*)"/.exec(text.substring(index, index + 260));
+	if (!match) {
+		return null;
+	}
+
+	const prefix = match[1] || '';
+	const hashes = match[2];
+	const isRaw = prefix.includes('r');
+	if (!isRaw && hashes.length > 0) {
+		return null;
+	}
+
+	return {
+		prefix,
+		quote: hashes + '"',
+		closeQuote: '"' + hashes,
+		escape: isRaw ? 'none' : 'backslash',
+		holeBraces: 0
+	};
+}
+
+function matchCppOpener(text: string, index: number): StringOpener | null {
+	if (isIdentifierBefore(text, index) || isEscaped(text, index)) {
+		return null;
+	}
+
+	const match = /^(u8|u|U|L)?(R?)"/.exec(text.substring(index, index + 4));
+	if (!match) {
+		return null;
+	}
+
+	const prefix = (match[1] || '') + match[2];
+	if (!match[2]) {
+		return { prefix, quote: '"', closeQuote: '"', escape: 'backslash', holeBraces: 0 };
+	}
+
+	const delimiterStart = index + match[0].length;
+	const delimiter = /^[^\s()\\]{0,16}\(/.exec(text.substring(delimiterStart, delimiterStart + 17));
+	if (!delimiter) {
+		return null;
+	}
+
+	const name = delimiter[0].slice(0, -1);
+	return { prefix, quote: '"' + name + '(', closeQuote: ')' + name + '"', escape: 'none', holeBraces: 0 };
+}
+
+function matchCSharpOpener(text: string, index: number): StringOpener | null {
+	if (isIdentifierBefore(text, index) || isEscaped(text, index)) {
+		return null;
+	}
+
+	const match = /^(\$@|@\$|@|\$*)("+)/.exec(text.substring(index, index + 64));
+	if (!match) {
+		return null;
+	}
+
+	const prefix = match[1];
+	const isVerbatim = prefix.includes('@');
+	const isInterpolated = prefix.includes('$');
+	if (isVerbatim || match[2].length < 3) {
+		return {
+			prefix,
+			quote: '"',
+			closeQuote: '"',
+			escape: isVerbatim ? 'doubled' : 'backslash',
+			holeBraces: isInterpolated ? 1 : 0
+		};
+	}
+
+	return { prefix, quote: match[2], closeQuote: match[2], escape: 'none', holeBraces: prefix.length };
+}
+
+function skipCharLiteral(text: string, index: number): number {
+	if (text[index] !== "'") {
+		return -1;
+	}
+
+	const match = /^'(?:[^'\\\n]|\\(?:u\{[0-9a-fA-F]{1,6}\}|x[0-9a-fA-F]+|[0-7]{1,3}|.))'/.exec(text.substring(index, index + 12));
+	return match ? index + match[0].length : index + 1;
+}
+
+const REGEX_PRECEDING_KEYWORDS = [
+	'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+	'throw', 'case', 'do', 'else', 'yield', 'await'
+];
+
+function isRegexAllowedAt(text: string, index: number): boolean {
+	let i = index - 1;
+	while (i >= 0 && /\s/.test(text[i])) {
+		i--;
+	}
+	if (i >= 1 && (text[i] === '+' || text[i] === '-') && text[i - 1] === text[i]) {
+		// A postfix increment or decrement ends an operand, so division follows.
+		let operandEnd = i - 2;
+		while (operandEnd >= 0 && /[ \t]/.test(text[operandEnd])) {
+			operandEnd--;
+		}
+		return operandEnd < 0 || !/[\w$)\]]/.test(text[operandEnd]);
+	}
+	if (i < 0 || /[(,=:[!&|?{};+\-*%>~^]/.test(text[i])) {
+		return true;
+	}
+	if (!/[\w$]/.test(text[i])) {
+		return false;
+	}
+
+	const wordEnd = i + 1;
+	while (i >= 0 && /[\w$]/.test(text[i])) {
+		i--;
+	}
+	return REGEX_PRECEDING_KEYWORDS.includes(text.substring(i + 1, wordEnd)) && text[i] !== '.';
+}
+
+function skipRegexLiteral(text: string, index: number): number {
+	if (text[index] !== '/' || !isRegexAllowedAt(text, index)) {
+		return -1;
+	}
+
+	let inClass = false;
+	for (let i = index + 1; i < text.length; i++) {
+		const ch = text[i];
+		if (ch === '\n' || ch === '\r') {
+			return -1;
+		}
+		if (ch === '\\') {
+			i++;
+		} else if (ch === '[') {
+			inClass = true;
+		} else if (ch === ']') {
+			inClass = false;
+		} else if (ch === '/' && !inClass) {
+			const flags = /^[a-z]*/.exec(text.substring(i + 1, i + 17));
+			return i + 1 + (flags ? flags[0].length : 0);
+		}
+	}
+	return -1;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getLineEnd(text: string, index: number): number {
+	const lineEnd = text.indexOf('\n', index);
+	if (lineEnd === -1) {
+		return text.length;
+	}
+	return text[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd;
+}
+
+function createHeredocOpener(
+	text: string,
+	index: number,
+	identifier: string,
+	indentedTerminator: string,
+	terminatorTail: string,
+	isLiteral: boolean
+): StringOpener {
+	return {
+		prefix: '',
+		quote: text.substring(index, getLineEnd(text, index)),
+		closeQuote: identifier,
+		escape: isLiteral ? 'none' : 'backslash',
+		holeBraces: 0,
+		terminator: new RegExp(`^(${indentedTerminator})${escapeRegExp(identifier)}${terminatorTail}$`)
+	};
+}
+
+function matchRubyOpener(text: string, index: number, prefixes: string[]): StringOpener | null {
+	const heredoc = /^<<([~-]?)(['"`]?)([A-Za-z_]\w*)\2/.exec(text.substring(index, index + 128));
+	if (heredoc && (heredoc[1] || heredoc[2] || /^[A-Z_]/.test(heredoc[3]))) {
+		const indented = heredoc[1] ? '[ \\t]*' : '';
+		return createHeredocOpener(text, index, heredoc[3], indented, '[ \\t]*', heredoc[2] === "'");
+	}
+	return matchDefaultOpener(text, index, prefixes);
+}
+
+function matchPhpOpener(text: string, index: number, prefixes: string[]): StringOpener | null {
+	const heredoc = /^<<<[ \t]*(['"]?)([A-Za-z_]\w*)\1[ \t]*(?=\r?\n)/.exec(text.substring(index, index + 128));
+	if (heredoc) {
+		return createHeredocOpener(text, index, heredoc[2], '[ \\t]*', '(?![A-Za-z0-9_]).*', heredoc[1] === "'");
+	}
+	return matchDefaultOpener(text, index, prefixes);
+}
+
+function matchShellOpener(text: string, index: number): StringOpener | null {
+	if (isEscaped(text, index)) {
+		return null;
+	}
+
+	const hereString = /^<<<[ \t]*(?=["'])/.exec(text.substring(index, index + 32));
+	if (hereString) {
+		const quote = text[index + hereString[0].length];
+		return {
+			prefix: hereString[0],
+			quote,
+			closeQuote: quote,
+			escape: quote === "'" ? 'none' : 'backslash',
+			holeBraces: 0
+		};
+	}
+
+	const heredoc = /^<<(-?)[ \t]*(['"]?)([A-Za-z_]\w*)\2/.exec(text.substring(index, index + 128));
+	if (heredoc) {
+		const indented = heredoc[1] ? '\\t*' : '';
+		return createHeredocOpener(text, index, heredoc[3], indented, '', heredoc[2] !== '');
+	}
+
+	if (text[index] === '"' || text[index] === "'") {
+		const quote = text[index];
+		return { prefix: '', quote, closeQuote: quote, escape: quote === "'" ? 'none' : 'backslash', holeBraces: 0 };
+	}
+	return null;
+}
+
+function matchStringOpener(text: string, index: number, languageId: string, prefixes: string[]): StringOpener | null {
+	switch (languageId) {
+		case 'rust':
+			return matchRustOpener(text, index);
+		case 'c':
+		case 'cpp':
+			return matchCppOpener(text, index);
+		case 'csharp':
+			return matchCSharpOpener(text, index);
+		case 'ruby':
+			return matchRubyOpener(text, index, prefixes);
+		case 'php':
+			return matchPhpOpener(text, index, prefixes);
+		case 'shellscript':
+			return matchShellOpener(text, index);
+		case 'lua':
+			return matchLuaOpener(text, index);
+		case 'swift':
+			return matchSwiftOpener(text, index);
+		case 'javascript':
+		case 'typescript':
+		case 'javascriptreact':
+		case 'typescriptreact':
+			return matchJavaScriptOpener(text, index);
+		default:
+			return matchDefaultOpener(text, index, prefixes);
+	}
+}
+
+function skipNonStringLiteral(text: string, index: number, languageId: string): number {
+	switch (languageId) {
+		case 'rust':
+		case 'c':
+		case 'cpp':
+		case 'csharp':
+			return skipCharLiteral(text, index);
+		case 'javascript':
+		case 'typescript':
+		case 'javascriptreact':
+		case 'typescriptreact':
+			return skipRegexLiteral(text, index);
+		default:
+			return -1;
+	}
+}
+
+function skipComment(text: string, index: number, comments: CommentSyntax): number {
+	for (const [open, close] of comments.blockComments) {
+		if (text.startsWith(open, index)) {
+			const closeIndex = text.indexOf(close, index + open.length);
+			return closeIndex === -1 ? text.length : closeIndex + close.length;
+		}
+	}
+
+	for (const marker of comments.longBracketComments || []) {
+		const level = text.startsWith(marker, index) ? matchLongBracket(text, index + marker.length) : null;
+		if (level !== null) {
+			const close = ']' + level + ']';
+			const closeIndex = text.indexOf(close, index + marker.length + level.length + 2);
+			return closeIndex === -1 ? text.length : closeIndex + close.length;
+		}
+	}
+
+	for (const marker of comments.lineComments) {
+		if (!text.startsWith(marker, index)) {
+			continue;
+		}
+		if (comments.lineCommentsAtWordStart && index > 0 && !/\s/.test(text[index - 1])) {
+			continue;
+		}
+		const lineEnd = text.indexOf('\n', index);
+		return lineEnd === -1 ? text.length : lineEnd;
+	}
+
+	return -1;
+}
+
+function countRun(text: string, index: number, ch: string): number {
+	let count = 0;
+	while (text[index + count] === ch) {
+		count++;
+	}
+	return count;
+}
+
+function skipInterpolationHole(
+	text: string,
+	index: number,
+	languageId: string,
+	prefixes: string[],
+	children: StringToken[],
+	open: string,
+	close: string
+): number {
+	let depth = 1;
+	let i = index;
+
+	while (i < text.length) {
+		const literalEnd = skipNonStringLiteral(text, i, languageId);
+		if (literalEnd !== -1) {
+			i = literalEnd;
+			continue;
+		}
+
+		const opener = matchStringOpener(text, i, languageId, prefixes);
+		if (opener) {
+			const token = scanStringToken(text, i, opener, languageId, prefixes);
+			if (!token) {
+				return -1;
+			}
+			children.push(token);
+			i = token.end;
+			continue;
+		}
+
+		if (text[i] === open) {
+			depth++;
+		} else if (text[i] === close) {
+			depth--;
+			if (depth === 0) {
+				return i + 1;
+			}
+		}
+		i++;
+	}
+
+	return -1;
+}
+
+function findHeredocTerminator(text: string, index: number, terminator: RegExp): number {
+	let lineStart = text.indexOf('\n', index) + 1;
+	while (lineStart > 0 && lineStart < text.length) {
+		const lineEnd = getLineEnd(text, lineStart);
+		const match = terminator.exec(text.substring(lineStart, lineEnd));
+		if (match) {
+			return lineStart + match[1].length;
+		}
+		lineStart = text.indexOf('\n', lineEnd) + 1;
+	}
+	return -1;
+}
+
+function findClosingQuote(
+	text: string,
+	index: number,
+	opener: StringOpener,
+	languageId: string,
+	prefixes: string[],
+	children: StringToken[]
+): number {
+	if (opener.terminator) {
+		return findHeredocTerminator(text, index, opener.terminator);
+	}
+
+	const quote = opener.closeQuote;
+	for (let i = index; i <= text.length - quote.length; i++) {
+		if (opener.holeOpen && opener.holeClose && text.startsWith(opener.holeOpen, i)) {
+			const holeStart = i + opener.holeOpen.length;
+			const holeOpenChar = text[holeStart - 1];
+			const holeEnd = skipInterpolationHole(text, holeStart, languageId, prefixes, children, holeOpenChar, opener.holeClose);
+			if (holeEnd === -1) {
+				return -1;
+			}
+			i = holeEnd - 1;
+			continue;
+		}
+		if (opener.escape === 'backslash' && text[i] === '\\') {
+			i++;
+			continue;
+		}
+		if (opener.singleLine && (text[i] === '\n' || text[i] === '\r')) {
+			return -1;
+		}
+		if (opener.escape === 'doubled' && text.startsWith(quote + quote, i)) {
+			i += quote.length * 2 - 1;
+			continue;
+		}
+		if (opener.holeBraces > 0 && text[i] === '{') {
+			const run = countRun(text, i, '{');
+			const isRaw = opener.escape === 'none';
+			if ((isRaw && run < opener.holeBraces) || (!isRaw && run > 1)) {
+				i += isRaw ? run - 1 : 1;
+				continue;
+			}
+			const holeEnd = skipInterpolationHole(text, i + run, languageId, prefixes, children, '{', '}');
+			if (holeEnd === -1) {
+				return -1;
+			}
+			i = holeEnd - 1;
+			continue;
+		}
+		if (text.startsWith(quote, i)) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function scanStringToken(
+	text: string,
+	index: number,
+	opener: StringOpener,
+	languageId: string,
+	prefixes: string[]
+): StringToken | null {
+	const contentStart = index + opener.prefix.length + opener.quote.length;
+	const children: StringToken[] = [];
+	const closeIndex = findClosingQuote(text, contentStart, opener, languageId, prefixes, children);
+	if (closeIndex === -1) {
+		return null;
+	}
+
+	const token: StringToken = {
+		start: index,
+		end: closeIndex + opener.closeQuote.length,
+		quote: opener.quote,
+		closeQuote: opener.closeQuote,
+		prefix: opener.prefix,
+		contentStart,
+		contentEnd: closeIndex
+	};
+	if (children.length > 0) {
+		token.children = children;
+	}
+	return token;
+}
+
+export function scanStringTokens(
+	text: string,
+	languageId: string,
+	from: number = 0,
+	shouldStop?: (token: StringToken) => boolean
+): StringToken[] {
+	const comments = getCommentSyntax(languageId);
+	const prefixes = getStringPrefixes(languageId);
+	const tokens: StringToken[] = [];
+	let i = from;
+
+	while (i < text.length) {
+		const commentEnd = skipComment(text, i, comments);
+		if (commentEnd !== -1) {
+			i = commentEnd;
+			continue;
+		}
+
+		const literalEnd = skipNonStringLiteral(text, i, languageId);
+		if (literalEnd !== -1) {
+			i = literalEnd;
+			continue;
+		}
+
+		const opener = matchStringOpener(text, i, languageId, prefixes);
+		if (!opener) {
+			i++;
+			continue;
+		}
+
+		// An unclosed quote in a language with free text, such as an
+		// apostrophe in JSX, is text rather than the start of a string.
+		const token = scanStringToken(text, i, opener, languageId, prefixes);
+		if (!token && opener.unclosedIsText) {
+			i++;
+			continue;
+		}
+		if (!token) {
+			break;
+		}
+		if (shouldStop && shouldStop(token)) {
+			break;
+		}
+		tokens.push(token);
+		i = token.end;
+	}
+
+	return tokens;
+}
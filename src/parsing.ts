@@ -1,184 +1,103 @@
 import * as vscode from 'vscode';
-import { StringInfo } from './types';
+import { getEmbeddedStringTokens, hasEmbeddedRegions } from './regions';
+import { getSyntaxStringTokens, isSyntaxTreeLanguage } from './syntaxTree';
+import { getStringTokens } from './tokenIndex';
+import { StringInfo, StringToken } from './types';
+
+function toStringInfo(document: vscode.TextDocument, token: StringToken): StringInfo {
+	const start = document.positionAt(token.start);
+	const end = document.positionAt(token.end);
+	const content = document.getText(new vscode.Range(
+		document.positionAt(token.contentStart),
+		document.positionAt(token.contentEnd)
+	));
 
-const QUOTE_TOKENS = ['"""', "'''", '`', '"', "'"];
-
-function getQuoteTokens(): string[] {
-	return QUOTE_TOKENS;
+	return {
+		start,
+		end,
+		quote: token.quote,
+		closeQuote: token.closeQuote,
+		prefix: token.prefix,
+		content,
+		isMultiline: start.line !== end.line || content.includes('\n'),
+		kind: token.kind,
+		parentKind: token.parentKind
+	};
 }
 
-function isEscaped(text: string, index: number): boolean {
-	let backslashCount = 0;
-	for (let i = index - 1; i >= 0 && text[i] === '\\'; i--) {
-		backslashCount++;
-	}
-	return backslashCount % 2 === 1;
+export function getDocumentStringTokens(document: vscode.TextDocument): StringToken[] {
+	return hasEmbeddedRegions(document.languageId)
+		? getEmbeddedStringTokens(document)
+		: getStringTokens(document);
 }
 
-function matchQuoteToken(text: string, index: number, tokens: string[]): string | null {
-	for (const token of tokens) {
-		if (text.startsWith(token, index)) {
-			return token;
-		}
-	}
-	return null;
+// JSX text and the syntax around a string are only known to the syntax
+// tree, so lookups that need them parse it instead of using the token index.
+export function getSyntaxAwareStringTokens(document: vscode.TextDocument): StringToken[] {
+	return isSyntaxTreeLanguage(document.languageId)
+		? getSyntaxStringTokens(document)
+		: getDocumentStringTokens(document);
 }
 
-export function findQuotePositionInLine(
-	lineText: string,
-	quote: string,
-	expectedPos: number,
-	direction: 'start' | 'end'
-): number {
-	const quoteLength = quote.length;
-	const maxPos = lineText.length - quoteLength;
-
-	const isValid = (pos: number): boolean => {
-		if (pos < 0 || pos > maxPos) {
-			return false;
-		}
-		if (!lineText.startsWith(quote, pos)) {
-			return false;
-		}
-		if (quoteLength === 1 && isEscaped(lineText, pos)) {
-			return false;
-		}
-		return true;
-	};
-
-	if (isValid(expectedPos)) {
-		return expectedPos;
-	}
-
-	const limit = Math.max(expectedPos, lineText.length - expectedPos);
-	for (let offset = 1; offset <= limit; offset++) {
-		const left = expectedPos - offset;
-		if (isValid(left)) {
-			return left;
-		}
-		const right = expectedPos + offset;
-		if (isValid(right)) {
-			return right;
-		}
+export function flattenTokens(tokens: StringToken[]): StringToken[] {
+	if (!tokens.some(token => token.children)) {
+		return tokens;
 	}
-
-	if (direction === 'start') {
-		for (let i = 0; i <= maxPos; i++) {
-			if (isValid(i)) {
-				return i;
-			}
-		}
-	} else {
-		for (let i = maxPos; i >= 0; i--) {
-			if (isValid(i)) {
-				return i;
-			}
-		}
-	}
-
-	return -1;
+	return tokens.flatMap(token => token.children ? [token, ...flattenTokens(token.children)] : [token]);
 }
 
-function findStringEnd(
-	document: vscode.TextDocument,
-	position: vscode.Position,
-	quote: string
-): vscode.Position | null {
-	const quoteLength = quote.length;
-	for (let lineNum = position.line; lineNum < document.lineCount; lineNum++) {
-		const lineText = document.lineAt(lineNum).text;
-		const startPos = lineNum === position.line ? position.character : 0;
-		for (let i = startPos; i <= lineText.length - quoteLength; i++) {
-			if (!lineText.startsWith(quote, i)) {
-				continue;
-			}
-			if (quoteLength === 1 && isEscaped(lineText, i)) {
-				continue;
-			}
-			return new vscode.Position(lineNum, i);
+export function findStringTokenAtOffset(tokens: StringToken[], offset: number): StringToken | null {
+	let low = 0;
+	let high = tokens.length - 1;
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		if (tokens[mid].start < offset) {
+			low = mid + 1;
+		} else {
+			high = mid - 1;
 		}
 	}
 
-	return null;
+	const token = high >= 0 ? tokens[high] : null;
+	if (!token || offset > token.contentEnd) {
+		return null;
+	}
+	return (token.children && findStringTokenAtOffset(token.children, offset)) || token;
 }
 
 export function findStringAtCursor(document: vscode.TextDocument, position: vscode.Position): StringInfo | null {
-	const tokens = getQuoteTokens();
-	let activeQuote: string | null = null;
-	let start: vscode.Position | null = null;
-
-	for (let lineNum = 0; lineNum <= position.line; lineNum++) {
-		const lineText = document.lineAt(lineNum).text;
-		const lineLimit = lineNum === position.line
-			? Math.min(position.character, lineText.length)
-			: lineText.length;
-		let i = 0;
-
-		while (i < lineLimit) {
-			if (!activeQuote) {
-				const token = matchQuoteToken(lineText, i, tokens);
-				if (!token) {
-					i++;
-					continue;
-				}
-				if (token.length === 1 && isEscaped(lineText, i)) {
-					i++;
-					continue;
-				}
-				activeQuote = token;
-				start = new vscode.Position(lineNum, i);
-				i += token.length;
-				continue;
-			}
+	const token = findStringTokenAtOffset(getSyntaxAwareStringTokens(document), document.offsetAt(position));
+	return token ? toStringInfo(document, token) : null;
+}
 
-			if (lineText.startsWith(activeQuote, i)) {
-				if (activeQuote.length === 1 && isEscaped(lineText, i)) {
-					i++;
-					continue;
-				}
-				i += activeQuote.length;
-				activeQuote = null;
-				start = null;
-				continue;
-			}
+export function findStringNearPosition(
+	document: vscode.TextDocument,
+	line: number,
+	character: number,
+	quote: string,
+	edge: 'start' | 'end'
+): StringInfo | null {
+	const tokens = flattenTokens(quote === '' ? getSyntaxAwareStringTokens(document) : getDocumentStringTokens(document));
+	const lineRange = document.lineAt(line).rangeIncludingLineBreak;
+	const lineStart = document.offsetAt(lineRange.start);
+	const lineEnd = document.offsetAt(lineRange.end);
+	let best: StringToken | null = null;
+	let bestDistance = Number.MAX_VALUE;
 
-			i++;
+	for (const token of tokens) {
+		if (token.quote !== quote) {
+			continue;
 		}
-	}
-
-	if (!activeQuote || !start) {
-		return null;
-	}
-
-	if (position.line === start.line && position.character <= start.character) {
-		return null;
-	}
-
-	const endPos = findStringEnd(document, position, activeQuote);
-	if (!endPos) {
-		return null;
-	}
-
-	const quoteLength = activeQuote.length;
-	let content = '';
-	for (let lineNum = start.line; lineNum <= endPos.line; lineNum++) {
-		const lineText = document.lineAt(lineNum).text;
-		if (lineNum === start.line && lineNum === endPos.line) {
-			content = lineText.substring(start.character + quoteLength, endPos.character);
-		} else if (lineNum === start.line) {
-			content = lineText.substring(start.character + quoteLength) + '\n';
-		} else if (lineNum === endPos.line) {
-			content += lineText.substring(0, endPos.character);
-		} else {
-			content += lineText + '\n';
+		const edgeOffset = edge === 'start' ? token.start : token.contentEnd;
+		if (edgeOffset < lineStart || edgeOffset >= lineEnd) {
+			continue;
+		}
+		const distance = Math.abs(edgeOffset - lineStart - character);
+		if (distance < bestDistance) {
+			best = token;
+			bestDistance = distance;
 		}
 	}
 
-	return {
-		start,
-		end: new vscode.Position(endPos.line, endPos.character + quoteLength),
-		quote: activeQuote,
-		content,
-		isMultiline: start.line !== endPos.line || content.includes('\n')
-	};
+	return best ? toStringInfo(document, best) : null;
 }
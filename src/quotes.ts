@@ -1,5 +1,25 @@
 import * as vscode from 'vscode';
-import { QuoteRules, StringInfo } from './types';
+import {
+	toCppMultilineForm,
+	toCppSingleLineForm,
+	toCSharpMultilineForm,
+	toCSharpSingleLineForm,
+	toLuaMultilineForm,
+	toLuaSingleLineForm,
+	toPhpHeredocForm,
+	toPhpSingleLineForm,
+	toRubyHeredocForm,
+	toRubySingleLineForm,
+	toRustMultilineForm,
+	toRustSingleLineForm,
+	toShellHeredocForm,
+	toShellSingleLineForm,
+	toSwiftMultilineForm,
+	toSwiftSingleLineForm
+} from './rawLiterals';
+import { reencodeContent } from './escapes';
+import { getLanguageIdAt } from './regions';
+import { LiteralForm, QuoteRules, StringInfo } from './types';
 
 export function getQuoteRules(languageId: string): QuoteRules {
 	switch (languageId) {
@@ -12,7 +32,7 @@ export function getQuoteRules(languageId: string): QuoteRules {
 				preferredMultilineQuote: '`',
 				hasSpecialFeatures: (content: string, quote: string) => {
 					if (quote === '`') {
-						return /\$\{[^}]*\}/.test(content);
+						return /\$\{[^}]*\}/.test(content.replace(/\\[\s\S]/g, ''));
 					}
 					return false;
 				},
@@ -22,7 +42,8 @@ export function getQuoteRules(languageId: string): QuoteRules {
 			return {
 				multilineQuotes: ['"""', "'''"],
 				preferredMultilineQuote: '"""',
-				hasSpecialFeatures: (content: string) => /\{[^}]*\}/.test(content),
+				hasSpecialFeatures: (content: string, quote: string, prefix: string) =>
+					/f/i.test(prefix) && /\{[^}]*["'][^}]*\}/.test(content),
 				allowsMultilineInRegularQuotes: false
 			};
 		case 'csharp':
@@ -30,7 +51,9 @@ export function getQuoteRules(languageId: string): QuoteRules {
 				multilineQuotes: ['"""'],
 				preferredMultilineQuote: '"""',
 				hasSpecialFeatures: (content: string) => /\{[^}]*\}/.test(content),
-				allowsMultilineInRegularQuotes: false
+				allowsMultilineInRegularQuotes: false,
+				toMultilineForm: toCSharpMultilineForm,
+				toSingleLineForm: toCSharpSingleLineForm
 			};
 		case 'go':
 			return {
@@ -44,20 +67,23 @@ export function getQuoteRules(languageId: string): QuoteRules {
 				multilineQuotes: ['"', "'"],
 				preferredMultilineQuote: '"',
 				hasSpecialFeatures: (content: string) => /#\{[^}]*\}/.test(content),
-				allowsMultilineInRegularQuotes: true
+				allowsMultilineInRegularQuotes: true,
+				toSingleLineForm: toRubySingleLineForm,
+				toHeredocForm: toRubyHeredocForm
 			};
 		case 'java':
 			return {
 				multilineQuotes: ['"""'],
 				preferredMultilineQuote: '"""',
 				hasSpecialFeatures: () => false,
-				allowsMultilineInRegularQuotes: false
+				allowsMultilineInRegularQuotes: false,
+				multilineOpenerEndsLine: true
 			};
 		case 'kotlin':
 			return {
 				multilineQuotes: ['"""'],
 				preferredMultilineQuote: '"""',
-				hasSpecialFeatures: (content: string) => /\$\{[^}]*\}/.test(content),
+				hasSpecialFeatures: (content: string) => /\$\{[^}]*\}/.test(content.split("${'$'}").join('')),
 				allowsMultilineInRegularQuotes: false
 			};
 		case 'php':
@@ -65,7 +91,65 @@ export function getQuoteRules(languageId: string): QuoteRules {
 				multilineQuotes: ['"'],
 				preferredMultilineQuote: '"',
 				hasSpecialFeatures: (content: string) => /\$[a-zA-Z_]/.test(content),
-				allowsMultilineInRegularQuotes: true
+				allowsMultilineInRegularQuotes: true,
+				toSingleLineForm: toPhpSingleLineForm,
+				toHeredocForm: toPhpHeredocForm
+			};
+		case 'shellscript':
+			return {
+				multilineQuotes: ['"', "'"],
+				preferredMultilineQuote: '"',
+				hasSpecialFeatures: () => false,
+				allowsMultilineInRegularQuotes: true,
+				toSingleLineForm: toShellSingleLineForm,
+				toHeredocForm: toShellHeredocForm
+			};
+		case 'rust':
+			return {
+				multilineQuotes: ['"'],
+				preferredMultilineQuote: '"',
+				hasSpecialFeatures: () => false,
+				allowsMultilineInRegularQuotes: true,
+				toMultilineForm: toRustMultilineForm,
+				toSingleLineForm: toRustSingleLineForm
+			};
+		case 'lua':
+			return {
+				multilineQuotes: ['[['],
+				preferredMultilineQuote: '[[',
+				hasSpecialFeatures: () => false,
+				allowsMultilineInRegularQuotes: false,
+				toMultilineForm: toLuaMultilineForm,
+				toSingleLineForm: toLuaSingleLineForm
+			};
+		case 'swift':
+			return {
+				multilineQuotes: ['"""'],
+				preferredMultilineQuote: '"""',
+				hasSpecialFeatures: (content: string) => /\\#*\(/.test(content),
+				allowsMultilineInRegularQuotes: false,
+				toMultilineForm: toSwiftMultilineForm,
+				toSingleLineForm: toSwiftSingleLineForm
+			};
+		case 'c':
+			// C has no raw or multi-line literal, so a split is refused; raw
+			// literals written with the GNU extension can still be merged.
+			return {
+				multilineQuotes: [],
+				preferredMultilineQuote: '"',
+				hasSpecialFeatures: () => false,
+				allowsMultilineInRegularQuotes: false,
+				toMultilineForm: () => null,
+				toSingleLineForm: toCppSingleLineForm
+			};
+		case 'cpp':
+			return {
+				multilineQuotes: ['"('],
+				preferredMultilineQuote: '"(',
+				hasSpecialFeatures: () => false,
+				allowsMultilineInRegularQuotes: false,
+				toMultilineForm: toCppMultilineForm,
+				toSingleLineForm: toCppSingleLineForm
 			};
 		default:
 			return {
@@ -78,7 +162,9 @@ export function getQuoteRules(languageId: string): QuoteRules {
 }
 
 export function resolveLanguageId(document: vscode.TextDocument, stringInfo?: StringInfo): string {
-	const languageId = document.languageId;
+	const languageId = stringInfo
+		? getLanguageIdAt(document, document.offsetAt(stringInfo.start))
+		: document.languageId;
 	if (languageId !== 'plaintext' || !stringInfo) {
 		return languageId;
 	}
@@ -109,6 +195,7 @@ export function shouldRestoreOriginalQuote(
 	languageId: string,
 	content: string,
 	currentQuote: string,
+	prefix: string,
 	originalQuote: string | undefined
 ): boolean {
 	if (!originalQuote || originalQuote === currentQuote) {
@@ -116,9 +203,83 @@ export function shouldRestoreOriginalQuote(
 	}
 
 	const rules = getQuoteRules(languageId);
-	if (rules.hasSpecialFeatures(content, currentQuote)) {
+	if (rules.hasSpecialFeatures(content, currentQuote, prefix)) {
 		return false;
 	}
 
 	return true;
 }
+
+/**
+ * Returns the literal to write the split string in, or null when no
+ * multi-line literal of the language can hold the same value.
+ */
+export function getMultilineForm(
+	languageId: string,
+	stringInfo: StringInfo,
+	isJSXAttr: boolean,
+	preferHeredoc = false
+): LiteralForm | null {
+	const rules = getQuoteRules(languageId);
+	const form: LiteralForm = {
+		prefix: stringInfo.prefix,
+		quote: stringInfo.quote,
+		closeQuote: stringInfo.closeQuote,
+		content: stringInfo.content
+	};
+
+	if (!isJSXAttr && preferHeredoc && rules.toHeredocForm) {
+		const heredoc = rules.toHeredocForm(form);
+		if (heredoc) {
+			return heredoc;
+		}
+	}
+
+	if (!isJSXAttr && rules.toMultilineForm) {
+		return rules.toMultilineForm(form);
+	}
+
+	const preferred = getMultilineQuote(languageId, stringInfo.quote, isJSXAttr);
+	if (preferred === stringInfo.quote) {
+		return form;
+	}
+
+	for (const quote of [preferred, ...rules.multilineQuotes.filter(q => q !== preferred)]) {
+		const content = reencodeContent(languageId, stringInfo.content, stringInfo.prefix, stringInfo.quote, quote);
+		if (content !== null) {
+			return {
+				prefix: stringInfo.prefix,
+				quote,
+				closeQuote: quote,
+				content,
+				openerEndsLine: rules.multilineOpenerEndsLine
+			};
+		}
+	}
+
+	return null;
+}
+
+export function getSingleLineForm(languageId: string, stringInfo: StringInfo, content: string): LiteralForm {
+	const form: LiteralForm = {
+		prefix: stringInfo.prefix,
+		quote: stringInfo.quote,
+		closeQuote: stringInfo.closeQuote,
+		content
+	};
+
+	const rules = getQuoteRules(languageId);
+	if (rules.toSingleLineForm) {
+		return rules.toSingleLineForm(form, stringInfo.originalQuote);
+	}
+
+	if (shouldRestoreOriginalQuote(languageId, content, stringInfo.quote, stringInfo.prefix, stringInfo.originalQuote)) {
+		const quote = stringInfo.originalQuote!;
+		const restored = reencodeContent(languageId, content, stringInfo.prefix, stringInfo.quote, quote);
+		if (restored !== null) {
+			return { ...form, quote, closeQuote: quote, content: restored };
+		}
+	}
+
+	return form;
+}
@@ -0,0 +1,427 @@
+import { LiteralForm } from './types';
+
+function hasOnlyQuoteEscapes(content: string, quote: string): boolean {
+	for (let i = 0; i < content.length; i++) {
+		if (content[i] !== '\\') {
+			continue;
+		}
+		const escaped = content[i + 1];
+		if (escaped !== quote && escaped !== '\\') {
+			return false;
+		}
+		i++;
+	}
+	return true;
+}
+
+function unescapeQuotes(content: string): string {
+	return content.replace(/\\(["\\])/g, '$1');
+}
+
+const CONTROL_ESCAPES: { [key: string]: string } = {
+	'\t': '\\t',
+	'\n': '\\n',
+	'\r': '\\r'
+};
+
+function escapeDoubleQuoted(content: string): string {
+	return content
+		.replace(/["\\]/g, '\\$&')
+		.replace(/[\t\n\r]/g, ch => CONTROL_ESCAPES[ch]);
+}
+
+function getRustHashGuard(content: string): string {
+	let hashes = '#';
+	while (content.includes('"' + hashes)) {
+		hashes += '#';
+	}
+	return hashes;
+}
+
+export function toRustMultilineForm(form: LiteralForm): LiteralForm {
+	if (form.prefix.includes('r') || !form.content.includes('\\"') || !hasOnlyQuoteEscapes(form.content, '"')) {
+		return form;
+	}
+
+	const content = unescapeQuotes(form.content);
+	const hashes = getRustHashGuard(content);
+	return {
+		prefix: form.prefix + 'r',
+		quote: hashes + '"',
+		closeQuote: '"' + hashes,
+		content
+	};
+}
+
+export function toRustSingleLineForm(form: LiteralForm, originalQuote: string | undefined): LiteralForm {
+	if (!form.prefix.includes('r') || originalQuote !== '"') {
+		return form;
+	}
+
+	return {
+		prefix: form.prefix.replace('r', ''),
+		quote: '"',
+		closeQuote: '"',
+		content: escapeDoubleQuoted(form.content)
+	};
+}
+
+function decodeSimpleEscapes(content: string, escapes: string): string | null {
+	let result = '';
+	for (let i = 0; i < content.length; i++) {
+		if (content[i] !== '\\') {
+			result += content[i];
+			continue;
+		}
+		const escaped = content[i + 1];
+		if (!escapes.includes(escaped)) {
+			return null;
+		}
+		result += escaped;
+		i++;
+	}
+	return result;
+}
+
+function getCppRawDelimiter(content: string): string {
+	let delimiter = '';
+	for (let n = 0; content.includes(')' + delimiter + '"'); n++) {
+		delimiter = n === 0 ? 'raw' : 'raw' + n;
+	}
+	return delimiter;
+}
+
+export function toCppMultilineForm(form: LiteralForm): LiteralForm | null {
+	if (form.prefix.includes('R')) {
+		return form;
+	}
+
+	const content = decodeSimpleEscapes(form.content, '"\\\'?');
+	if (content === null) {
+		return null;
+	}
+
+	const delimiter = getCppRawDelimiter(content);
+	return {
+		prefix: form.prefix + 'R',
+		quote: '"' + delimiter + '(',
+		closeQuote: ')' + delimiter + '"',
+		content
+	};
+}
+
+export function toCppSingleLineForm(form: LiteralForm): LiteralForm {
+	if (!form.prefix.includes('R')) {
+		return form;
+	}
+
+	return {
+		prefix: form.prefix.replace('R', ''),
+		quote: '"',
+		closeQuote: '"',
+		content: escapeDoubleQuoted(form.content)
+	};
+}
+
+export interface InterpolationSegment {
+	text: string;
+	isHole: boolean;
+}
+
+function countRun(text: string, index: number, ch: string): number {
+	let count = 0;
+	while (text[index + count] === ch) {
+		count++;
+	}
+	return count;
+}
+
+function getLongestRun(text: string, chars: string): number {
+	let longest = 0;
+	for (let i = 0; i < text.length; i++) {
+		if (!chars.includes(text[i])) {
+			continue;
+		}
+		const run = countRun(text, i, text[i]);
+		longest = Math.max(longest, run);
+		i += run - 1;
+	}
+	return longest;
+}
+
+function findHoleEnd(content: string, index: number): number {
+	let depth = 1;
+	for (let i = index; i < content.length; i++) {
+		const ch = content[i];
+		if (ch === '"') {
+			for (i++; i < content.length && content[i] !== '"'; i++) {
+				if (content[i] === '\\') {
+					i++;
+				}
+			}
+		} else if (ch === '{') {
+			depth++;
+		} else if (ch === '}' && --depth === 0) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+export function splitCSharpInterpolation(content: string, holeBraces: number, isRaw: boolean): InterpolationSegment[] {
+	const segments: InterpolationSegment[] = [];
+	let literal = '';
+	let i = 0;
+
+	while (i < content.length) {
+		const ch = content[i];
+		if (ch !== '{' && ch !== '}') {
+			literal += ch;
+			i++;
+			continue;
+		}
+
+		const run = countRun(content, i, ch);
+		if (ch === '}' || (isRaw && run < holeBraces) || (!isRaw && run > 1)) {
+			const literalBraces = isRaw ? run : Math.ceil(run / 2);
+			literal += ch.repeat(literalBraces);
+			i += isRaw ? run : Math.min(run, 2);
+			continue;
+		}
+
+		const holeStart = i + run;
+		const holeEnd = findHoleEnd(content, holeStart);
+		if (holeEnd === -1) {
+			literal += content.substring(i);
+			break;
+		}
+
+		literal += '{'.repeat(isRaw ? run - holeBraces : 0);
+		segments.push({ text: literal, isHole: false });
+		segments.push({ text: content.substring(holeStart, holeEnd), isHole: true });
+		literal = '';
+		i = holeEnd + (isRaw ? holeBraces : 1);
+	}
+
+	segments.push({ text: literal, isHole: false });
+	return segments;
+}
+
+export function toCSharpMultilineForm(form: LiteralForm): LiteralForm | null {
+	if (form.prefix.includes('@') || form.quote.length >= 3) {
+		return form;
+	}
+
+	const isInterpolated = form.prefix.includes('$');
+	const segments = isInterpolated
+		? splitCSharpInterpolation(form.content, 1, false)
+		: [{ text: form.content, isHole: false }];
+
+	const literals = segments.filter(segment => !segment.isHole);
+	if (!literals.every(segment => hasOnlyQuoteEscapes(segment.text.replace(/\\'/g, ''), '"'))) {
+		return null;
+	}
+
+	const decoded = segments.map(segment => segment.isHole
+		? segment
+		: { text: unescapeQuotes(segment.text.replace(/\\'/g, "'")), isHole: false });
+	const literalText = decoded.filter(segment => !segment.isHole).map(segment => segment.text).join('');
+	const dollars = isInterpolated ? getLongestRun(literalText, '{}') + 1 : 0;
+	const content = decoded
+		.map(segment => segment.isHole
+			? '{'.repeat(dollars) + segment.text + '}'.repeat(dollars)
+			: segment.text)
+		.join('');
+	const quote = '"'.repeat(Math.max(3, getLongestRun(content, '"') + 1));
+
+	return { prefix: '$'.repeat(dollars), quote, closeQuote: quote, content, openerEndsLine: true, closerOwnsLine: true };
+}
+
+export function toCSharpSingleLineForm(form: LiteralForm, originalQuote: string | undefined): LiteralForm {
+	if (form.quote.length < 3 || originalQuote !== '"') {
+		return form;
+	}
+
+	const dollars = form.prefix.length;
+	const segments = dollars > 0
+		? splitCSharpInterpolation(form.content, dollars, true)
+		: [{ text: form.content, isHole: false }];
+	const content = segments
+		.map(segment => {
+			if (segment.isHole) {
+				return '{' + segment.text + '}';
+			}
+			const escaped = escapeDoubleQuoted(segment.text);
+			return dollars > 0 ? escaped.replace(/[{}]/g, '$&$&') : escaped;
+		})
+		.join('');
+
+	return { prefix: dollars > 0 ? '$' : '', quote: '"', closeQuote: '"', content };
+}
+
+const HEREDOC_OPENER = /^(<<<|<<[~-]?)[ \t]*(['"`]?)([A-Za-z_]\w*)\2(.*)$/;
+
+function escapeUnescaped(content: string, quote: string): string {
+	let result = '';
+	for (let i = 0; i < content.length; i++) {
+		if (content[i] === '\\') {
+			result += content.substring(i, i + 2);
+			i++;
+		} else {
+			result += content[i] === quote ? '\\' + quote : content[i];
+		}
+	}
+	return result;
+}
+
+function getHeredocIdentifier(content: string, base: string): string {
+	const words = content.split(/\s+/);
+	let identifier = base;
+	for (let n = 1; words.includes(identifier); n++) {
+		identifier = base + n;
+	}
+	return identifier;
+}
+
+function fromHeredoc(form: LiteralForm, languageId: string): LiteralForm | null {
+	const match = form.prefix === '' ? HEREDOC_OPENER.exec(form.quote) : null;
+	if (!match) {
+		return null;
+	}
+
+	const isLiteral = languageId === 'shellscript' ? match[2] !== '' : match[2] === "'";
+	const trailer = match[4];
+	const prefix = languageId === 'shellscript' ? '<<< ' : '';
+
+	if (isLiteral) {
+		const content = languageId === 'shellscript'
+			? form.content.replace(/'/g, "'\\''")
+			: form.content.replace(/['\\]/g, '\\$&');
+		return { prefix, quote: "'", closeQuote: "'" + trailer, content };
+	}
+
+	return { prefix, quote: '"', closeQuote: '"' + trailer, content: escapeUnescaped(form.content, '"') };
+}
+
+function toHeredoc(form: LiteralForm, languageId: string): LiteralForm | null {
+	if (form.quote !== '"' && form.quote !== "'") {
+		return null;
+	}
+
+	const isLiteral = form.quote === "'";
+	const content = isLiteral && languageId !== 'shellscript'
+		? form.content.replace(/\\(['\\])/g, '$1')
+		: form.content.replace(/\\"/g, '"');
+
+	switch (languageId) {
+		case 'ruby': {
+			const identifier = getHeredocIdentifier(content, 'EOS');
+			const opener = isLiteral ? `'${identifier}'` : identifier;
+			return { prefix: '', quote: '<<~' + opener, closeQuote: identifier, content, continuesOpenerLine: true, closerOwnsLine: true };
+		}
+		case 'php': {
+			const identifier = getHeredocIdentifier(content, 'EOT');
+			const opener = isLiteral ? `'${identifier}'` : identifier;
+			return { prefix: '', quote: '<<<' + opener, closeQuote: identifier, content, openerEndsLine: true, closerOwnsLine: true };
+		}
+		case 'shellscript': {
+			if (!form.prefix.startsWith('<<<')) {
+				return null;
+			}
+			const identifier = getHeredocIdentifier(content, 'EOF');
+			const opener = isLiteral ? `'${identifier}'` : identifier;
+			return {
+				prefix: '',
+				quote: '<<' + opener,
+				closeQuote: identifier,
+				content,
+				continuesOpenerLine: true,
+				closeAtLineStart: true,
+				closerOwnsLine: true
+			};
+		}
+		default:
+			return null;
+	}
+}
+
+export function toRubyHeredocForm(form: LiteralForm): LiteralForm | null {
+	return toHeredoc(form, 'ruby');
+}
+
+export function toPhpHeredocForm(form: LiteralForm): LiteralForm | null {
+	return toHeredoc(form, 'php');
+}
+
+export function toShellHeredocForm(form: LiteralForm): LiteralForm | null {
+	return toHeredoc(form, 'shellscript');
+}
+
+export function toRubySingleLineForm(form: LiteralForm): LiteralForm {
+	return fromHeredoc(form, 'ruby') || form;
+}
+
+export function toPhpSingleLineForm(form: LiteralForm): LiteralForm {
+	return fromHeredoc(form, 'php') || form;
+}
+
+export function toShellSingleLineForm(form: LiteralForm): LiteralForm {
+	return fromHeredoc(form, 'shellscript') || form;
+}
+
+function getLuaLongBracketLevel(content: string): string {
+	let level = '';
+	while ((content + ']').includes(']' + level + ']')) {
+		level += '=';
+	}
+	return level;
+}
+
+export function toLuaMultilineForm(form: LiteralForm): LiteralForm | null {
+	if (form.quote !== '"' && form.quote !== "'") {
+		return form;
+	}
+
+	const content = decodeSimpleEscapes(form.content, '"\\\'');
+	if (content === null) {
+		return null;
+	}
+
+	const level = getLuaLongBracketLevel(content);
+	return { prefix: '', quote: '[' + level + '[', closeQuote: ']' + level + ']', content };
+}
+
+export function toLuaSingleLineForm(form: LiteralForm, originalQuote: string | undefined): LiteralForm {
+	if (!form.quote.startsWith('[') || (originalQuote !== '"' && originalQuote !== "'")) {
+		return form;
+	}
+
+	return {
+		prefix: '',
+		quote: originalQuote,
+		closeQuote: originalQuote,
+		content: form.content.replace(new RegExp(`[${originalQuote}\\\\]`, 'g'), '\\$&')
+	};
+}
+
+export function toSwiftMultilineForm(form: LiteralForm): LiteralForm {
+	if (form.quote !== '"') {
+		return form;
+	}
+
+	const unescaped = form.prefix ? form.content : form.content.replace(/\\"/g, '"');
+	const content = unescaped.includes('"""') ? form.content : unescaped;
+	return { prefix: form.prefix, quote: '"""', closeQuote: '"""' + form.prefix, content, openerEndsLine: true, closerOwnsLine: true };
+}
+
+export function toSwiftSingleLineForm(form: LiteralForm): LiteralForm {
+	if (form.quote !== '"""') {
+		return form;
+	}
+
+	const closeQuote = '"' + form.prefix;
+	const content = form.prefix
+		? form.content.split(closeQuote).join('\\' + form.prefix + closeQuote)
+		: escapeUnescaped(form.content, '"');
+	return { prefix: form.prefix, quote: '"', closeQuote, content };
+}
@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { scanStringTokens } from './lexer';
+import { isSyntaxTreeLanguage, parseStringTokens } from './syntaxTree';
+import { EmbeddedRegion, StringToken } from './types';
+
+interface RegionCacheEntry {
+	version: number;
+	languageId: string;
+	regions: EmbeddedRegion[];
+	tokens?: StringToken[];
+}
+
+const FENCE_LANGUAGES: { [alias: string]: string } = {
+	js: 'javascript',
+	mjs: 'javascript',
+	cjs: 'javascript',
+	jsx: 'javascriptreact',
+	ts: 'typescript',
+	tsx: 'typescriptreact',
+	py: 'python',
+	rb: 'ruby',
+	sh: 'shellscript',
+	bash: 'shellscript',
+	zsh: 'shellscript',
+	shell: 'shellscript',
+	rs: 'rust',
+	cs: 'csharp',
+	'c#': 'csharp',
+	'c++': 'cpp',
+	golang: 'go',
+	kt: 'kotlin',
+	yml: 'yaml'
+};
+
+const regionCache = new Map<string, RegionCacheEntry>();
+
+export function hasEmbeddedRegions(languageId: string): boolean {
+	return languageId === 'markdown' ||
+		languageId === 'html' ||
+		languageId === 'vue' ||
+		languageId === 'svelte';
+}
+
+function getEmbeddedRegions(document: vscode.TextDocument): EmbeddedRegion[] {
+	return getRegionCacheEntry(document).regions;
+}
+
+export function getLanguageIdAt(document: vscode.TextDocument, offset: number): string {
+	if (!hasEmbeddedRegions(document.languageId)) {
+		return document.languageId;
+	}
+
+	const region = getEmbeddedRegions(document).find(r => r.start <= offset && offset < r.end);
+	return region ? region.languageId : document.languageId;
+}
+
+export function getEmbeddedStringTokens(document: vscode.TextDocument): StringToken[] {
+	const entry = getRegionCacheEntry(document);
+	if (entry.tokens) {
+		return entry.tokens;
+	}
+
+	const text = document.getText();
+	const tokens: StringToken[] = [];
+	let gapStart = 0;
+	for (const region of entry.regions) {
+		tokens.push(...scanRange(text, document.languageId, gapStart, region.outerStart));
+		if (isSyntaxTreeLanguage(region.languageId)) {
+			const regionText = text.substring(region.start, region.end);
+			tokens.push(...parseStringTokens(document.fileName, regionText, region.languageId, region.start));
+		} else {
+			tokens.push(...scanRange(text, region.languageId, region.start, region.end));
+		}
+		gapStart = region.outerEnd;
+	}
+	tokens.push(...scanRange(text, document.languageId, gapStart, text.length));
+
+	entry.tokens = tokens;
+	return tokens;
+}
+
+export function clearEmbeddedRegionsForUri(uri: string): void {
+	regionCache.delete(uri);
+}
+
+function getRegionCacheEntry(document: vscode.TextDocument): RegionCacheEntry {
+	const uri = document.uri.toString();
+	const cached = regionCache.get(uri);
+	if (cached && cached.version === document.version && cached.languageId === document.languageId) {
+		return cached;
+	}
+
+	const text = document.getText();
+	const regions = document.languageId === 'markdown'
+		? findMarkdownRegions(text)
+		: findTagRegions(text);
+	const entry = { version: document.version, languageId: document.languageId, regions };
+	regionCache.set(uri, entry);
+	return entry;
+}
+
+function scanRange(text: string, languageId: string, start: number, end: number): StringToken[] {
+	return scanStringTokens(text.substring(0, end), languageId, start);
+}
+
+function getFenceLanguage(info: string): string {
+	const name = info.trim().split(/[\s{]/)[0].toLowerCase();
+	return FENCE_LANGUAGES[name] || name || 'plaintext';
+}
+
+function findMarkdownRegions(text: string): EmbeddedRegion[] {
+	const regions: EmbeddedRegion[] = [];
+	const opener = /^ {0,3}(`{3,}|~{3,})([^`\n]*)$/gm;
+	let match: RegExpExecArray | null;
+
+	while ((match = opener.exec(text)) !== null) {
+		const fence = match[1];
+		const start = Math.min(match.index + match[0].length + 1, text.length);
+		const closer = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*\\r?$`, 'gm');
+		closer.lastIndex = start;
+		const close = closer.exec(text);
+		const end = close ? close.index : text.length;
+		const outerEnd = close ? close.index + close[0].length : text.length;
+
+		// Fence lines belong to neither the code nor the prose around it.
+		regions.push({ languageId: getFenceLanguage(match[2]), start, end, outerStart: match.index, outerEnd });
+		opener.lastIndex = outerEnd;
+	}
+
+	return regions;
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+	const match = new RegExp(`\\b${name}\\s*=\\s*["']?([^"'\\s>]+)`, 'i').exec(attributes);
+	return match ? match[1].toLowerCase() : null;
+}
+
+function getScriptLanguage(attributes: string): string {
+	const lang = getAttribute(attributes, 'lang');
+	switch (lang) {
+		case 'ts':
+		case 'typescript':
+			return 'typescript';
+		case 'tsx':
+			return 'typescriptreact';
+		case 'jsx':
+			return 'javascriptreact';
+	}
+
+	const type = getAttribute(attributes, 'type') || '';
+	if (type.includes('typescript')) {
+		return 'typescript';
+	}
+	return type.includes('json') ? 'json' : 'javascript';
+}
+
+function getStyleLanguage(attributes: string): string {
+	const lang = getAttribute(attributes, 'lang');
+	return lang === 'scss' || lang === 'less' || lang === 'sass' || lang === 'stylus' ? lang : 'css';
+}
+
+function findTagRegions(text: string): EmbeddedRegion[] {
+	const regions: EmbeddedRegion[] = [];
+	const lowerText = text.toLowerCase();
+	const opener = /<(script|style)\b([^>]*)>/gi;
+	let match: RegExpExecArray | null;
+
+	while ((match = opener.exec(text)) !== null) {
+		const attributes = match[2];
+		if (attributes.trimEnd().endsWith('/')) {
+			continue;
+		}
+
+		const tagName = match[1].toLowerCase();
+		const start = match.index + match[0].length;
+		const closeIndex = lowerText.indexOf('</' + tagName, start);
+		const end = closeIndex === -1 ? text.length : closeIndex;
+
+		regions.push({
+			languageId: tagName === 'script' ? getScriptLanguage(attributes) : getStyleLanguage(attributes),
+			start,
+			end,
+			outerStart: start,
+			outerEnd: end
+		});
+		opener.lastIndex = end;
+	}
+
+	return regions;
+}
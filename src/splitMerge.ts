@@ -1,43 +1,132 @@
 import * as vscode from 'vscode';
-import { getMultilineQuote, resolveLanguageId, shouldRestoreOriginalQuote } from './quotes';
+import {
+	getDelimiterProfile,
+	joinDelimitedLines,
+	joinWithRecordedWhitespace,
+	splitByDelimiter,
+	splitDelimitedLines
+} from './delimiters';
+import { confirmValueChange, findValueChange } from './equivalence';
+import { getMultilineForm, getSingleLineForm, resolveLanguageId } from './quotes';
+import { getContinuationIndent } from './indentation';
 import { isInJSXAttribute } from './jsx';
-import { StringInfo } from './types';
+import { layoutItems, reordersItems } from './layout';
+import { sortTailwindClasses } from './tailwindOrder';
+import { getTokens } from './tokens';
+import { LiteralForm, StringInfo } from './types';
 
-export function splitString(stringInfo: StringInfo, document: vscode.TextDocument): string {
-	const words = stringInfo.content.trim().split(/\s+/);
+function shouldSortTokens(document: vscode.TextDocument, separator: string): boolean {
+	return separator.trim() === '' &&
+		vscode.workspace.getConfiguration('splitSpacedStrings', document).get<boolean>('sortTokens', false);
+}
+
+function isValueKept(
+	document: vscode.TextDocument,
+	action: string,
+	languageId: string,
+	stringInfo: StringInfo,
+	result: LiteralForm,
+	whitespace: RegExp,
+	separator: string,
+	reordered: boolean
+): boolean {
+	const original: LiteralForm = {
+		prefix: stringInfo.prefix,
+		quote: stringInfo.quote,
+		closeQuote: stringInfo.closeQuote,
+		content: stringInfo.content
+	};
+	const change = findValueChange(languageId, original, result, whitespace, separator.trim(), reordered);
+	return change === null || confirmValueChange(document, action, change);
+}
+
+/**
+ * Returns the split literal, or null when the split is refused because it
+ * would change the string's value.
+ */
+export function splitString(stringInfo: StringInfo, document: vscode.TextDocument, delimiter?: string): string | null {
 	const lineText = document.lineAt(stringInfo.start.line).text;
 	const lineIndent = lineText.substring(0, lineText.length - lineText.trimStart().length);
-	const additionalIndent = '  ';
 
 	const isJSXAttr = isInJSXAttribute(document, stringInfo.start);
 	const languageId = resolveLanguageId(document, stringInfo);
-	const multilineQuote = getMultilineQuote(languageId, stringInfo.quote, isJSXAttr);
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings', document);
+	const keepQuote = isJSXAttr || stringInfo.kind === 'jsxText';
+	const form = getMultilineForm(languageId, stringInfo, keepQuote, config.get<boolean>('splitToHeredoc', false));
+	if (!form) {
+		vscode.window.showWarningMessage('Cannot split this string: no multi-line string in this language can hold the same value');
+		return null;
+	}
 
-	if (multilineQuote !== stringInfo.quote) {
+	if (form.quote !== stringInfo.quote) {
 		stringInfo.originalQuote = stringInfo.quote;
 	}
 
-	let result = multilineQuote + '\n';
-	words.forEach((word) => {
-		result += lineIndent + additionalIndent + word + '\n';
-	});
-	result += lineIndent + multilineQuote;
+	let opening = form.prefix + form.quote;
+	if (form.continuesOpenerLine) {
+		opening += lineText.substring(stringInfo.end.character);
+		stringInfo.end = new vscode.Position(stringInfo.end.line, lineText.length);
+	}
+
+	const profile = getDelimiterProfile(document, delimiter);
+	const { items, separator, separators, leading, trailing } = splitByDelimiter(form.content, profile);
+	const mark = separator.trim();
+	const sorted = shouldSortTokens(document, separator);
+	const sortedItems = sorted ? sortTailwindClasses(items) : items;
+	stringInfo.separator = separator;
+	stringInfo.whitespace = { leading, trailing, separators, items: sortedItems };
+
+	const itemIndent = getContinuationIndent(document, lineText, stringInfo.start.character);
+	const lines = layoutItems(sortedItems, separator, itemIndent, document);
+
+	const body = lines.map((lineItems, index) => lineItems.join(separator) + (index < lines.length - 1 ? mark : ''));
+	const openingLayout = config.get<string>('openingDelimiter', 'ownLine');
+	const closingLayout = config.get<string>('closingDelimiter', 'ownLine');
+	const hugFirst = openingLayout === 'hugFirstToken' && !form.openerEndsLine && !form.continuesOpenerLine;
+	const hugLast = closingLayout === 'hugLastToken' && !form.closerOwnsLine && (!hugFirst || body.length > 1);
+
+	const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+	let result = opening + (hugFirst ? '' : eol + itemIndent) + body.join(eol + itemIndent);
+	if (hugLast) {
+		result += form.closeQuote;
+	} else if (form.closeAtLineStart) {
+		result += eol + form.closeQuote;
+	} else {
+		result += eol + (closingLayout === 'indented' ? itemIndent : lineIndent) + form.closeQuote;
+	}
+	stringInfo.splitDelimiters = { opening, closing: form.closeQuote };
+
+	const content = result.substring(opening.length, result.length - form.closeQuote.length);
+	const reordered = sorted || reordersItems(document);
+	if (!isValueKept(document, 'Split', languageId, stringInfo, { ...form, content }, profile.whitespace, separator, reordered)) {
+		return null;
+	}
 
 	return result;
 }
 
-export function mergeString(stringInfo: StringInfo, document: vscode.TextDocument): string {
-	const content = stringInfo.content
-		.split('\n')
-		.map(line => line.trim())
-		.filter(line => line.length > 0)
-		.join(' ');
+/**
+ * Returns the merged literal, or null when the merge is refused because it
+ * would change the string's value.
+ */
+export function mergeString(stringInfo: StringInfo, document: vscode.TextDocument, delimiter?: string): string | null {
+	const profile = getDelimiterProfile(document, delimiter);
+	const lines = splitDelimitedLines(stringInfo.content, profile.whitespace);
+	const separator = stringInfo.separator ?? profile.separator;
+	const joined = joinDelimitedLines(lines, separator);
+	const recorded = stringInfo.whitespace;
+	const restored = recorded && joined === recorded.items.join(separator) ? joinWithRecordedWhitespace(recorded) : null;
+	const sorted = restored === null && shouldSortTokens(document, separator);
+	let content = restored ?? joined;
+	if (sorted) {
+		content = sortTailwindClasses(getTokens(joined, profile.whitespace)).join(separator);
+	}
 
-	let finalQuote = stringInfo.quote;
 	const languageId = resolveLanguageId(document, stringInfo);
-	if (shouldRestoreOriginalQuote(languageId, content, stringInfo.quote, stringInfo.originalQuote)) {
-		finalQuote = stringInfo.originalQuote!;
+	const form = getSingleLineForm(languageId, stringInfo, content);
+	if (!isValueKept(document, 'Merge', languageId, stringInfo, form, profile.whitespace, separator, sorted)) {
+		return null;
 	}
 
-	return finalQuote + content + finalQuote;
+	return form.prefix + form.quote + form.content + form.closeQuote;
 }
@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import * as ts from 'typescript';
+import { StringKind, StringToken } from './types';
+
+interface SyntaxTreeEntry {
+	version: number;
+	languageId: string;
+	strings: StringToken[];
+}
+
+const sourceFileCache = new Map<string, SyntaxTreeEntry>();
+
+export function isSyntaxTreeLanguage(languageId: string): boolean {
+	return languageId === 'javascript' ||
+		languageId === 'typescript' ||
+		languageId === 'javascriptreact' ||
+		languageId === 'typescriptreact';
+}
+
+export function getSyntaxStringTokens(document: vscode.TextDocument): StringToken[] {
+	const uri = document.uri.toString();
+	const cached = sourceFileCache.get(uri);
+	if (cached && cached.version === document.version && cached.languageId === document.languageId) {
+		return cached.strings;
+	}
+
+	const strings = parseStringTokens(document.fileName, document.getText(), document.languageId, 0);
+	sourceFileCache.set(uri, { version: document.version, languageId: document.languageId, strings });
+	return strings;
+}
+
+export function parseStringTokens(fileName: string, text: string, languageId: string, offset: number): StringToken[] {
+	const sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, getScriptKind(languageId));
+	return collectStringTokens(sourceFile, offset);
+}
+
+export function clearSourceFileCacheForUri(uri: string): void {
+	sourceFileCache.delete(uri);
+}
+
+function getScriptKind(languageId: string): ts.ScriptKind {
+	switch (languageId) {
+		case 'typescript':
+			return ts.ScriptKind.TS;
+		case 'typescriptreact':
+			return ts.ScriptKind.TSX;
+		case 'javascript':
+			return ts.ScriptKind.JS;
+		default:
+			return ts.ScriptKind.JSX;
+	}
+}
+
+function getStringKind(node: ts.Node, sourceFile: ts.SourceFile): StringKind | null {
+	if (ts.isStringLiteral(node)) {
+		return node.isUnterminated ? null : 'stringLiteral';
+	}
+	if (ts.isNoSubstitutionTemplateLiteral(node)) {
+		return node.isUnterminated ? null : 'noSubstitutionTemplate';
+	}
+	if (ts.isTemplateExpression(node)) {
+		const lastSpan = node.templateSpans[node.templateSpans.length - 1];
+		return lastSpan.literal.isUnterminated ? null : 'templateExpression';
+	}
+	if (ts.isJsxText(node)) {
+		return /\S/.test(node.getText(sourceFile)) ? 'jsxText' : null;
+	}
+	return null;
+}
+
+function createStringToken(node: ts.Node, kind: StringKind, sourceFile: ts.SourceFile, offset: number): StringToken {
+	if (kind === 'jsxText') {
+		return {
+			start: offset + node.pos,
+			end: offset + node.end,
+			quote: '',
+			closeQuote: '',
+			prefix: '',
+			contentStart: offset + node.pos,
+			contentEnd: offset + node.end,
+			kind,
+			parentKind: ts.SyntaxKind[node.parent.kind]
+		};
+	}
+
+	const start = node.getStart(sourceFile);
+	const quote = sourceFile.text[start];
+	return {
+		start: offset + start,
+		end: offset + node.end,
+		quote,
+		closeQuote: quote,
+		prefix: '',
+		contentStart: offset + start + 1,
+		contentEnd: offset + node.end - 1,
+		kind,
+		parentKind: ts.SyntaxKind[node.parent.kind]
+	};
+}
+
+function collectStringTokens(sourceFile: ts.SourceFile, offset: number): StringToken[] {
+	const tokens: StringToken[] = [];
+
+	const visit = (node: ts.Node, target: StringToken[]): void => {
+		const kind = getStringKind(node, sourceFile);
+		if (!kind) {
+			node.forEachChild(child => visit(child, target));
+			return;
+		}
+
+		const token = createStringToken(node, kind, sourceFile, offset);
+		target.push(token);
+		if (kind === 'templateExpression') {
+			const children: StringToken[] = [];
+			node.forEachChild(child => visit(child, children));
+			if (children.length > 0) {
+				token.children = children;
+			}
+		}
+	};
+
+	visit(sourceFile, tokens);
+	return tokens;
+}
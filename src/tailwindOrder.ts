@@ -0,0 +1,396 @@
+import { splitTokenRanges } from './tokens';
+
+// Utilities in Tailwind's property order. A class is ranked by the first
+// pattern it matches, so specific patterns come before generic ones that
+// share a prefix (text alignment and size before text color).
+const PROPERTY_ORDER: RegExp[] = [
+	/^container$/,
+	/^(not-)?sr-only$/,
+	/^pointer-events-/,
+	/^(visible|invisible|collapse)$/,
+	/^(static|fixed|absolute|relative|sticky)$/,
+	/^inset-([xy]-)?/,
+	/^start-/,
+	/^end-/,
+	/^top-/,
+	/^right-/,
+	/^bottom-/,
+	/^left-/,
+	/^isolat(e|ion-auto)$/,
+	/^z-/,
+	/^order-/,
+	/^col-/,
+	/^row-/,
+	/^float-/,
+	/^clear-/,
+	/^m([xysetrbl])?-/,
+	/^box-(border|content)$/,
+	/^line-clamp-/,
+	/^(block|inline-block|inline|flex|inline-flex|table|inline-table|flow-root|grid|inline-grid|contents|list-item|hidden)$/,
+	/^aspect-/,
+	/^size-/,
+	/^h-/,
+	/^max-h-/,
+	/^min-h-/,
+	/^w-/,
+	/^min-w-/,
+	/^max-w-/,
+	/^flex-(1|auto|initial|none|\[.*\])$/,
+	/^(flex-)?shrink(-|$)/,
+	/^(flex-)?grow(-|$)/,
+	/^basis-/,
+	/^table-(auto|fixed)$/,
+	/^border-(collapse|separate)$/,
+	/^border-spacing(-|$)/,
+	/^origin-/,
+	/^translate-([xyz])-/,
+	/^rotate-([xyz]-)?/,
+	/^skew-([xy])-/,
+	/^scale-([xyz]-)?/,
+	/^transform(-|$)/,
+	/^animate-/,
+	/^cursor-/,
+	/^touch-/,
+	/^select-/,
+	/^resize(-|$)/,
+	/^snap-/,
+	/^scroll-([mp][xysetrbl]?)-/,
+	/^list-/,
+	/^appearance-/,
+	/^columns-/,
+	/^break-(before|after|inside)-/,
+	/^auto-cols-/,
+	/^grid-flow-/,
+	/^auto-rows-/,
+	/^grid-cols-/,
+	/^grid-rows-/,
+	/^flex-(row|col)(-reverse)?$/,
+	/^flex-(wrap|wrap-reverse|nowrap)$/,
+	/^place-content-/,
+	/^place-items-/,
+	/^content-(normal|center|start|end|between|around|evenly|baseline|stretch)$/,
+	/^items-/,
+	/^justify-(normal|start|end|center|between|around|evenly|stretch)$/,
+	/^justify-items-/,
+	/^gap-([xy]-)?/,
+	/^space-([xy])-/,
+	/^divide-([xy])(-\d+|-\[\d.*\])?$/,
+	/^divide-(solid|dashed|dotted|double|none)$/,
+	/^divide-/,
+	/^place-self-/,
+	/^self-/,
+	/^justify-self-/,
+	/^overflow-([xy]-)?/,
+	/^overscroll-([xy]-)?/,
+	/^scroll-(auto|smooth)$/,
+	/^truncate$/,
+	/^text-(ellipsis|clip)$/,
+	/^whitespace-/,
+	/^text-(wrap|nowrap|balance|pretty)$/,
+	/^break-(normal|words|all|keep)$/,
+	/^rounded(-([setrbl]{1,2})(?=-|$))?(-|$)/,
+	/^border(-([xysetrbl]))?(-\d+|-\[\d.*\])?$/,
+	/^border-(solid|dashed|dotted|double|hidden|none)$/,
+	/^border-(([xysetrbl])-)?/,
+	/^bg-(fixed|local|scroll|clip-.*|origin-.*|repeat.*|no-repeat|auto|cover|contain|left.*|right.*|top|bottom|center|none|gradient-.*)$/,
+	/^bg-(?!blend-)/,
+	/^(from|via|to)-/,
+	/^fill-/,
+	/^stroke-(0|1|2)$/,
+	/^stroke-/,
+	/^object-/,
+	/^p([xysetrbl])?-/,
+	/^text-(left|center|right|justify|start|end)$/,
+	/^indent-/,
+	/^align-/,
+	/^font-(sans|serif|mono)$/,
+	/^text-(xs|sm|base|lg|xl|[2-9]xl)(\/.*)?$/,
+	/^font-(thin|extralight|light|normal|medium|semibold|bold|extrabold|black)$/,
+	/^(uppercase|lowercase|capitalize|normal-case)$/,
+	/^(italic|not-italic)$/,
+	/^(normal-nums|ordinal|slashed-zero|lining-nums|oldstyle-nums|proportional-nums|tabular-nums|diagonal-fractions|stacked-fractions)$/,
+	/^leading-/,
+	/^tracking-/,
+	/^text-/,
+	/^(underline|overline|line-through|no-underline)$/,
+	/^decoration-(solid|double|dotted|dashed|wavy)$/,
+	/^decoration-(auto|from-font|0|1|2|4|8)$/,
+	/^decoration-/,
+	/^underline-offset-/,
+	/^(antialiased|subpixel-antialiased)$/,
+	/^placeholder-/,
+	/^caret-/,
+	/^accent-/,
+	/^opacity-/,
+	/^bg-blend-/,
+	/^mix-blend-/,
+	/^shadow(-(sm|md|lg|xl|2xl|inner|none|\[.*\]))?$/,
+	/^shadow-/,
+	/^outline(-(none|dashed|dotted|double))?$/,
+	/^outline-(0|1|2|4|8)$/,
+	/^outline-offset-/,
+	/^outline-/,
+	/^ring(-(0|1|2|4|8|\[\d[^\]]*\]))?$/,
+	/^ring-inset$/,
+	/^ring-(?!offset-)/,
+	/^ring-offset-(0|1|2|4|8)$/,
+	/^ring-offset-/,
+	/^(blur|brightness|contrast|drop-shadow|grayscale|hue-rotate|invert|saturate|sepia)(-|$)/,
+	/^filter(-none)?$/,
+	/^backdrop-/,
+	/^transition(-|$)/,
+	/^delay-/,
+	/^duration-/,
+	/^ease-/,
+	/^will-change-/,
+	/^content-/,
+	/^\[.+:.+\]$/
+];
+
+// Utilities keyed by the CSS property they set, for conflict detection. A
+// class is keyed by the first pattern it matches, and a `side` group keeps
+// apart classes like `px-` and `py-` that share a pattern but not a
+// property. Classes that set several properties, or whose property depends
+// on an arbitrary value, are left out so they never conflict.
+const CONFLICT_PROPERTIES: [RegExp, string][] = [
+	[/^(not-)?sr-only$/, 'sr-only'],
+	[/^pointer-events-/, 'pointer-events'],
+	[/^(visible|invisible|collapse)$/, 'visibility'],
+	[/^(static|fixed|absolute|relative|sticky)$/, 'position'],
+	[/^inset-(?<side>[xy]-)?/, 'inset'],
+	[/^(?<side>start|end|top|right|bottom|left)-/, 'inset'],
+	[/^isolat(e|ion-auto)$/, 'isolation'],
+	[/^z-/, 'z-index'],
+	[/^order-/, 'order'],
+	[/^(?<side>col|row)-(auto|span-.*)$/, 'grid-span'],
+	[/^(?<side>col|row)-start-/, 'grid-start'],
+	[/^(?<side>col|row)-end-/, 'grid-end'],
+	[/^float-/, 'float'],
+	[/^clear-/, 'clear'],
+	[/^m(?<side>[xysetrbl])?-/, 'margin'],
+	[/^box-(border|content)$/, 'box-sizing'],
+	[/^line-clamp-/, 'line-clamp'],
+	[/^(block|inline-block|inline|flex|inline-flex|table|inline-table|flow-root|grid|inline-grid|contents|list-item|hidden)$/, 'display'],
+	[/^aspect-/, 'aspect-ratio'],
+	[/^size-/, 'size'],
+	[/^(?<side>min-|max-)?h-/, 'height'],
+	[/^(?<side>min-|max-)?w-/, 'width'],
+	[/^flex-(1|auto|initial|none|\[.*\])$/, 'flex'],
+	[/^(flex-)?shrink(-|$)/, 'flex-shrink'],
+	[/^(flex-)?grow(-|$)/, 'flex-grow'],
+	[/^basis-/, 'flex-basis'],
+	[/^table-(auto|fixed)$/, 'table-layout'],
+	[/^border-(collapse|separate)$/, 'border-collapse'],
+	[/^border-spacing(-(?<side>[xy]))?(-|$)/, 'border-spacing'],
+	[/^origin-/, 'transform-origin'],
+	[/^translate-(?<side>[xyz])-/, 'translate'],
+	[/^rotate-(?<side>[xyz]-)?/, 'rotate'],
+	[/^skew-(?<side>[xy])-/, 'skew'],
+	[/^scale-(?<side>[xyz]-)?/, 'scale'],
+	[/^animate-/, 'animation'],
+	[/^cursor-/, 'cursor'],
+	[/^touch-(auto|none|manipulation)$/, 'touch-action'],
+	[/^touch-pan-(x|left|right)$/, 'touch-pan-x'],
+	[/^touch-pan-(y|up|down)$/, 'touch-pan-y'],
+	[/^select-/, 'user-select'],
+	[/^resize(-|$)/, 'resize'],
+	[/^snap-(x|y|both|none)$/, 'scroll-snap-type'],
+	[/^snap-(mandatory|proximity)$/, 'scroll-snap-strictness'],
+	[/^snap-(start|end|center|align-none)$/, 'scroll-snap-align'],
+	[/^snap-(normal|always)$/, 'scroll-snap-stop'],
+	[/^scroll-(?<side>[mp][xysetrbl]?)-/, 'scroll-spacing'],
+	[/^list-(inside|outside)$/, 'list-style-position'],
+	[/^list-image-/, 'list-style-image'],
+	[/^list-/, 'list-style-type'],
+	[/^appearance-/, 'appearance'],
+	[/^columns-/, 'columns'],
+	[/^break-(?<side>before|after|inside)-/, 'break'],
+	[/^auto-cols-/, 'grid-auto-columns'],
+	[/^grid-flow-/, 'grid-auto-flow'],
+	[/^auto-rows-/, 'grid-auto-rows'],
+	[/^grid-cols-/, 'grid-template-columns'],
+	[/^grid-rows-/, 'grid-template-rows'],
+	[/^flex-(row|col)(-reverse)?$/, 'flex-direction'],
+	[/^flex-(wrap|wrap-reverse|nowrap)$/, 'flex-wrap'],
+	[/^place-content-/, 'place-content'],
+	[/^place-items-/, 'place-items'],
+	[/^content-(normal|center|start|end|between|around|evenly|baseline|stretch)$/, 'align-content'],
+	[/^items-/, 'align-items'],
+	[/^justify-(normal|start|end|center|between|around|evenly|stretch)$/, 'justify-content'],
+	[/^justify-items-/, 'justify-items'],
+	[/^gap-(?<side>[xy]-)?/, 'gap'],
+	[/^space-(?<side>[xy])-(?!reverse$)/, 'space'],
+	[/^divide-(?<side>[xy])(-\d+|-\[\d.*\])?$/, 'divide-width'],
+	[/^divide-(solid|dashed|dotted|double|none)$/, 'divide-style'],
+	[/^divide-opacity-/, 'divide-opacity'],
+	[/^divide-(?![xy](-|$)|\[)/, 'divide-color'],
+	[/^place-self-/, 'place-self'],
+	[/^self-/, 'align-self'],
+	[/^justify-self-/, 'justify-self'],
+	[/^overflow-(?<side>[xy]-)?/, 'overflow'],
+	[/^overscroll-(?<side>[xy]-)?/, 'overscroll-behavior'],
+	[/^scroll-(auto|smooth)$/, 'scroll-behavior'],
+	[/^text-(ellipsis|clip)$/, 'text-overflow'],
+	[/^whitespace-/, 'white-space'],
+	[/^text-(wrap|nowrap|balance|pretty)$/, 'text-wrap'],
+	[/^break-words$/, 'overflow-wrap'],
+	[/^break-(all|keep)$/, 'word-break'],
+	[/^rounded(-(?<side>[setrbl]{1,2})(?=-|$))?(-|$)/, 'border-radius'],
+	[/^border(-(?<side>[xysetrbl]))?(-\d+|-\[\d.*\])?$/, 'border-width'],
+	[/^border-(solid|dashed|dotted|double|hidden|none)$/, 'border-style'],
+	[/^border-opacity-/, 'border-opacity'],
+	[/^border-((?<side>[xysetrbl])-)?(?!\[)/, 'border-color'],
+	[/^bg-(fixed|local|scroll)$/, 'background-attachment'],
+	[/^bg-clip-/, 'background-clip'],
+	[/^bg-origin-/, 'background-origin'],
+	[/^bg-(repeat.*|no-repeat)$/, 'background-repeat'],
+	[/^bg-(auto|cover|contain)$/, 'background-size'],
+	[/^bg-(left.*|right.*|top|bottom|center)$/, 'background-position'],
+	[/^bg-(none|gradient-.*)$/, 'background-image'],
+	[/^bg-blend-/, 'background-blend-mode'],
+	[/^bg-opacity-/, 'background-opacity'],
+	[/^bg-(?!\[)/, 'background-color'],
+	[/^(?<side>from|via|to)-(\d+%|\[[\d.]+%\])$/, 'gradient-stop-position'],
+	[/^(?<side>from|via|to)-(?!\[)/, 'gradient-stop'],
+	[/^fill-/, 'fill'],
+	[/^stroke-(0|1|2)$/, 'stroke-width'],
+	[/^stroke-(?!\[)/, 'stroke'],
+	[/^object-(contain|cover|fill|none|scale-down)$/, 'object-fit'],
+	[/^object-/, 'object-position'],
+	[/^p(?<side>[xysetrbl])?-/, 'padding'],
+	[/^text-(left|center|right|justify|start|end)$/, 'text-align'],
+	[/^indent-/, 'text-indent'],
+	[/^align-/, 'vertical-align'],
+	[/^font-(sans|serif|mono)$/, 'font-family'],
+	[/^text-(xs|sm|base|lg|xl|[2-9]xl)(\/.*)?$/, 'font-size'],
+	[/^text-\[(length:.*|[\d.]+(px|r?em|%|vw|vh|pt)?)\](\/.*)?$/, 'font-size'],
+	[/^font-(thin|extralight|light|normal|medium|semibold|bold|extrabold|black)$/, 'font-weight'],
+	[/^(uppercase|lowercase|capitalize|normal-case)$/, 'text-transform'],
+	[/^(italic|not-italic)$/, 'font-style'],
+	[/^ordinal$/, 'font-variant-ordinal'],
+	[/^slashed-zero$/, 'font-variant-slashed-zero'],
+	[/^(lining|oldstyle)-nums$/, 'font-variant-figure'],
+	[/^(proportional|tabular)-nums$/, 'font-variant-spacing'],
+	[/^(diagonal|stacked)-fractions$/, 'font-variant-fraction'],
+	[/^leading-/, 'line-height'],
+	[/^tracking-/, 'letter-spacing'],
+	[/^text-opacity-/, 'text-opacity'],
+	[/^text-\[(color:.*|#.*|(rgb|hsl)a?\(.*)\]$/, 'color'],
+	[/^text-(?!\[)/, 'color'],
+	[/^(underline|overline|line-through|no-underline)$/, 'text-decoration-line'],
+	[/^decoration-(solid|double|dotted|dashed|wavy)$/, 'text-decoration-style'],
+	[/^decoration-(auto|from-font|0|1|2|4|8)$/, 'text-decoration-thickness'],
+	[/^decoration-(?!\[)/, 'text-decoration-color'],
+	[/^underline-offset-/, 'text-underline-offset'],
+	[/^(antialiased|subpixel-antialiased)$/, 'font-smoothing'],
+	[/^placeholder-/, 'placeholder-color'],
+	[/^caret-/, 'caret-color'],
+	[/^accent-/, 'accent-color'],
+	[/^opacity-/, 'opacity'],
+	[/^mix-blend-/, 'mix-blend-mode'],
+	[/^shadow(-(sm|md|lg|xl|2xl|inner|none))?$/, 'box-shadow'],
+	[/^shadow-(?!\[)/, 'box-shadow-color'],
+	[/^outline(-(none|dashed|dotted|double))?$/, 'outline-style'],
+	[/^outline-(0|1|2|4|8)$/, 'outline-width'],
+	[/^outline-offset-/, 'outline-offset'],
+	[/^outline-(?!\[)/, 'outline-color'],
+	[/^ring(-(0|1|2|4|8|\[\d[^\]]*\]))?$/, 'ring-width'],
+	[/^ring-inset$/, 'ring-inset'],
+	[/^ring-opacity-/, 'ring-opacity'],
+	[/^ring-offset-(0|1|2|4|8)$/, 'ring-offset-width'],
+	[/^ring-offset-(?!\[)/, 'ring-offset-color'],
+	[/^ring-(?!\[)/, 'ring-color'],
+	[/^(?<side>blur|brightness|contrast|drop-shadow|grayscale|hue-rotate|invert|saturate|sepia)(-|$)/, 'filter'],
+	[/^backdrop-(?<side>blur|brightness|contrast|grayscale|hue-rotate|invert|opacity|saturate|sepia)(-|$)/, 'backdrop-filter'],
+	[/^transition(-|$)/, 'transition-property'],
+	[/^delay-/, 'transition-delay'],
+	[/^duration-/, 'transition-duration'],
+	[/^ease-/, 'transition-timing-function'],
+	[/^will-change-/, 'will-change'],
+	[/^content-/, 'content'],
+	[/^\[(?<side>[a-z-]+):.+\]$/, 'arbitrary']
+];
+
+// Variants in the order Tailwind registers them. A class with several
+// variants sorts by the combination, like Tailwind's variant bit mask.
+const VARIANT_ORDER = [
+	'first-letter', 'first-line', 'marker', 'selection', 'file', 'placeholder', 'backdrop', 'before', 'after',
+	'first', 'last', 'only', 'odd', 'even', 'first-of-type', 'last-of-type', 'only-of-type',
+	'visited', 'target', 'open', 'default', 'checked', 'indeterminate', 'placeholder-shown', 'autofill',
+	'optional', 'required', 'valid', 'invalid', 'in-range', 'out-of-range', 'read-only', 'empty',
+	'focus-within', 'hover', 'focus', 'focus-visible', 'active', 'enabled', 'disabled',
+	'group', 'peer', 'ltr', 'rtl', 'motion-safe', 'motion-reduce', 'dark', 'print',
+	'sm', 'md', 'lg', 'xl', '2xl', 'portrait', 'landscape'
+];
+
+function getVariantRank(variant: string): number {
+	const name = /^(group|peer)-/.test(variant) ? variant.substring(0, variant.indexOf('-')) : variant;
+	return VARIANT_ORDER.indexOf(name);
+}
+
+function getPropertyRank(utility: string): number | null {
+	const property = PROPERTY_ORDER.findIndex(pattern => pattern.test(utility));
+	return property === -1 ? null : property;
+}
+
+function parseClass(token: string): { variants: string[]; utility: string; important: boolean } {
+	const parts = splitTokenRanges(token, /:/).map(range => token.substring(range.start, range.end));
+	const utility = parts.pop()!;
+	return {
+		variants: parts,
+		utility: utility.replace(/^!/, '').replace(/^-/, ''),
+		important: utility.startsWith('!')
+	};
+}
+
+function getSortKey(token: string): { variants: bigint; property: number } | null {
+	const { variants, utility } = parseClass(token);
+
+	let variantMask = 0n;
+	for (const variant of variants) {
+		const rank = getVariantRank(variant);
+		if (rank === -1) {
+			return null;
+		}
+		variantMask |= 1n << BigInt(rank);
+	}
+
+	const property = getPropertyRank(utility);
+	return property === null ? null : { variants: variantMask, property };
+}
+
+/**
+ * Returns a key shared by classes that set the same CSS property under the
+ * same variants, or null for classes that cannot conflict by name alone.
+ */
+export function getConflictKey(token: string): string | null {
+	const { variants, utility, important } = parseClass(token);
+	for (const [pattern, property] of CONFLICT_PROPERTIES) {
+		const match = pattern.exec(utility);
+		if (match) {
+			const variantKey = [...variants].sort().join(':');
+			return `${variantKey}|${important ? '!' : ''}${property}:${match.groups?.side ?? ''}`;
+		}
+	}
+	return null;
+}
+
+/**
+ * Sorts recognized Tailwind classes into canonical order. The sorted classes
+ * fill the positions recognized classes held, so unrecognized tokens keep
+ * their positions and relative order.
+ */
+export function sortTailwindClasses(tokens: string[]): string[] {
+	const entries = tokens.map((token, index) => ({ token, index, key: getSortKey(token) }));
+	const sorted = entries
+		.filter(entry => entry.key !== null)
+		.sort((a, b) => {
+			if (a.key!.variants !== b.key!.variants) {
+				return a.key!.variants < b.key!.variants ? -1 : 1;
+			}
+			return a.key!.property - b.key!.property || a.index - b.index;
+		});
+
+	let next = 0;
+	return entries.map(entry => entry.key === null ? entry.token : sorted[next++].token);
+}
@@ -1,7 +1,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { __test__ } from '../extension';
-import { wait, cleanupEditor } from './test-helpers';
+import { wait, cleanupEditor, openEditor, toggleAt, setConfig } from './test-helpers';
 
 suite('Auto-Collapse on Save', () => {
 	teardown(async () => {
@@ -70,6 +70,28 @@ suite('Auto-Collapse on Save', () => {
 		await config.update('autoCollapseOnSave', false, vscode.ConfigurationTarget.Global);
 	});
 
+	test('Should collapse a split JSX className on save', async function() {
+		this.timeout(5000);
+		await setConfig({ autoCollapseOnSave: true });
+
+		const input = 'const a = <div className="p-4 m-2">x</div>;\nconst b = "y";';
+		const editor = await openEditor(input, 'typescriptreact');
+		const afterSplit = await toggleAt(editor, 0, 28);
+		assert.ok(afterSplit.split('\n').length > 3, 'className should be split');
+		assert.ok(__test__.getLastDecorationRanges().length > 0, 'Split className should stay decorated');
+
+		const edits = __test__.applyAutoCollapseOnSave(editor.document, editor);
+		assert.strictEqual(edits.length, 1, 'Split className should be found again on save');
+		await editor.edit(editBuilder => {
+			for (const edit of edits) {
+				editBuilder.replace(edit.range, edit.newText);
+			}
+		});
+
+		assert.strictEqual(editor.document.getText(), input);
+		await setConfig({ autoCollapseOnSave: false });
+	});
+
 	test('Should NOT auto-collapse when setting is disabled', async function() {
 		this.timeout(5000);
 		
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { testToggle, wait, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Bracket-Aware Tokens', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should keep Tailwind arbitrary values whole when splitting', async () => {
+		const input = 'const cls = "grid-cols-[repeat(2, minmax(0, 1fr))] [mask-type:luminance] p-2";';
+		const result = await testToggle(input, 0, 14);
+
+		assert.strictEqual(
+			result,
+			'const cls = `\n  grid-cols-[repeat(2, minmax(0, 1fr))]\n  [mask-type:luminance]\n  p-2\n`;',
+			'Spaces inside brackets and parentheses should not split tokens'
+		);
+	});
+
+	test('Should keep quoted groups whole but not apostrophes inside words', async () => {
+		const input = 'const s = "font-[\'Open Sans\'] don\'t stop";';
+		const result = await testToggle(input, 0, 12);
+
+		assert.strictEqual(
+			result,
+			'const s = `\n  font-[\'Open Sans\']\n  don\'t\n  stop\n`;',
+			'Quoted group should stay whole'
+		);
+	});
+
+	test('Should fall back to plain splitting for unbalanced brackets', async () => {
+		const input = 'const s = "a [b c";';
+		const result = await testToggle(input, 0, 12);
+
+		assert.strictEqual(result, 'const s = `\n  a\n  [b\n  c\n`;', 'Unclosed bracket should not swallow the rest');
+	});
+
+	test('Should map the cursor inside an arbitrary value across split and merge', async () => {
+		const input = 'const cls = "p-2 grid-cols-[repeat(2, 1fr)] m-1";';
+		const document = await vscode.workspace.openTextDocument({ content: input, language: 'typescript' });
+		const editor = await vscode.window.showTextDocument(document);
+
+		const cursorChar = input.indexOf('1fr');
+		let position = new vscode.Position(0, cursorChar);
+		editor.selection = new vscode.Selection(position, position);
+		await vscode.commands.executeCommand('split-spaced-strings.toggleSplit');
+		await wait(100);
+
+		const splitCursor = editor.selection.active;
+		assert.strictEqual(splitCursor.line, 2, 'Cursor should be on the arbitrary value line');
+		assert.strictEqual(
+			editor.document.lineAt(2).text.substring(splitCursor.character, splitCursor.character + 3),
+			'1fr',
+			'Cursor should keep its offset inside the token'
+		);
+
+		await vscode.commands.executeCommand('split-spaced-strings.toggleSplit');
+		await wait(100);
+
+		assert.strictEqual(editor.document.getText(), input, 'Merge should restore the original string');
+		assert.strictEqual(editor.selection.active.character, cursorChar, 'Cursor should return to the same character');
+	});
+});
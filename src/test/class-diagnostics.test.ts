@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { wait, cleanupEditor } from './test-helpers';
+
+suite('Class Diagnostics', () => {
+	suiteSetup(async () => {
+		await vscode.extensions.getExtension('c75.split-spaced-strings')?.activate();
+	});
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	async function openDocument(content: string, language: string = 'typescriptreact'): Promise<vscode.TextDocument> {
+		const document = await vscode.workspace.openTextDocument({ content, language });
+		await vscode.window.showTextDocument(document);
+		await wait(100);
+		return document;
+	}
+
+	function getDiagnostics(document: vscode.TextDocument): vscode.Diagnostic[] {
+		return vscode.languages.getDiagnostics(document.uri)
+			.filter(diagnostic => diagnostic.source === 'split-spaced-strings');
+	}
+
+	async function applyQuickFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, title: string): Promise<void> {
+		const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+			'vscode.executeCodeActionProvider',
+			document.uri,
+			diagnostic.range
+		);
+		const action = actions.find(candidate => candidate.title.startsWith(title));
+		assert.ok(action && action.edit, `Quick fix '${title}' should be offered`);
+		await vscode.workspace.applyEdit(action.edit);
+		await wait(300);
+	}
+
+	test('Should report duplicate classes in a JSX className', async () => {
+		const document = await openDocument('const a = <div className="p-4 flex p-4" />;');
+		const diagnostics = getDiagnostics(document);
+
+		assert.strictEqual(diagnostics.length, 1, 'Only the repeated class should be reported');
+		assert.strictEqual(diagnostics[0].code, 'duplicate-class');
+		assert.strictEqual(diagnostics[0].range.start.character, document.getText().lastIndexOf('p-4'));
+	});
+
+	test('Should report conflicting classes under the same variant', async () => {
+		const document = await openDocument('const a = <div className="p-2 md:flex p-4 md:hidden hover:p-8" />;');
+		const messages = getDiagnostics(document).map(diagnostic => diagnostic.message);
+
+		assert.deepStrictEqual(messages, [
+			"Class 'p-2' conflicts with 'p-4'",
+			"Class 'md:flex' conflicts with 'md:hidden'"
+		], 'Classes under other variants should not conflict');
+	});
+
+	test('Should not report classes that set different properties of one utility', async () => {
+		const classes = [
+			'bg-cover bg-center bg-no-repeat',
+			'object-cover object-center',
+			'list-disc list-inside',
+			'from-red-500 via-white to-blue-500',
+			'snap-x snap-mandatory',
+			'blur-sm grayscale',
+			'ordinal tabular-nums',
+			'text-[13px] text-red-500'
+		];
+		const document = await openDocument(classes.map(value => `<div className="${value}" />`).join('\n'));
+
+		assert.deepStrictEqual(getDiagnostics(document).map(diagnostic => diagnostic.message), []);
+	});
+
+	test('Should ignore strings that are not class lists', async () => {
+		const document = await openDocument('const a = <div title="p-4 p-4" />;\nconst b = "p-2 p-4";');
+
+		assert.strictEqual(getDiagnostics(document).length, 0, 'Only class attributes should be checked');
+	});
+
+	test('Should check class helper calls and split strings', async () => {
+		const document = await openDocument('const a = clsx(\n  `\n    flex\n    hidden\n  `\n);', 'typescript');
+		const diagnostics = getDiagnostics(document);
+
+		assert.strictEqual(diagnostics.length, 1, 'Conflict should be found across lines');
+		assert.strictEqual(diagnostics[0].range.start.line, 2);
+	});
+
+	test('Should check a split JSX className', async () => {
+		const document = await openDocument('const a = <div className="\n  p-4\n  flex\n  p-4\n">x</div>;\nconst b = "y";');
+		const diagnostics = getDiagnostics(document);
+
+		assert.strictEqual(diagnostics.length, 1, 'Split attribute should be checked');
+		assert.strictEqual(diagnostics[0].range.start.line, 3);
+	});
+
+	test('Should check class attributes after an apostrophe in JSX text', async () => {
+		const document = await openDocument('const a = <p>\n  don\'t stop\n  <span className="p-4 p-4" />\n</p>;');
+
+		assert.strictEqual(getDiagnostics(document).length, 1, 'The apostrophe should not start a string');
+	});
+
+	test('Should remove a duplicate with the quick fix', async () => {
+		const document = await openDocument('const a = <div className="p-4 flex p-4" />;');
+		await applyQuickFix(document, getDiagnostics(document)[0], 'Remove duplicate class');
+
+		assert.strictEqual(document.getText(), 'const a = <div className="p-4 flex" />;');
+		assert.strictEqual(getDiagnostics(document).length, 0, 'Diagnostics should update after the fix');
+	});
+
+	test('Should keep the last conflicting class with the quick fix', async () => {
+		const document = await openDocument('<div class="\n  p-2\n  flex\n  p-4\n"></div>', 'html');
+		await applyQuickFix(document, getDiagnostics(document)[0], "Remove 'p-2'");
+
+		assert.strictEqual(document.getText(), '<div class="\n  flex\n  p-4\n"></div>', 'The whole line should be removed');
+	});
+
+	test('Should update diagnostics once edits pause', async () => {
+		const document = await openDocument('const a = <div className="p-4 flex" />;');
+		const edit = new vscode.WorkspaceEdit();
+		edit.insert(document.uri, document.positionAt(document.getText().indexOf('flex') + 4), ' p-4');
+		await vscode.workspace.applyEdit(edit);
+
+		assert.strictEqual(getDiagnostics(document).length, 0, 'Diagnostics should wait for the edits to pause');
+		await wait(300);
+		assert.strictEqual(getDiagnostics(document).length, 1, 'Diagnostics should follow the edit');
+	});
+
+	test('Should skip languages without class attributes', async () => {
+		const document = await openDocument('s := clsx("p-4 p-4")', 'go');
+
+		assert.strictEqual(getDiagnostics(document).length, 0);
+	});
+});
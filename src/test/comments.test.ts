@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { testToggle, cleanupEditor } from './test-helpers';
+
+suite('Comment-Aware Detection', () => {
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should ignore apostrophe in a line comment', async () => {
+		const input = [
+			"// don't touch",
+			'const x = "alpha beta";'
+		].join('\n');
+		const result = await testToggle(input, 1, 14);
+
+		const lines = result.split('\n');
+		assert.strictEqual(lines[0], "// don't touch", 'Comment should be unchanged');
+		assert.ok(lines.some(l => l.trim() === 'alpha'), 'String after comment should be split');
+		assert.ok(lines.some(l => l.trim() === 'beta'), 'String after comment should be split');
+	});
+
+	test('Should ignore quotes in a block comment', async () => {
+		const input = [
+			'/* it\'s "odd',
+			' */',
+			'const x = "alpha beta";'
+		].join('\n');
+		const result = await testToggle(input, 2, 14);
+
+		assert.ok(result.startsWith('/* it\'s "odd\n */\n'), 'Comment should be unchanged');
+		assert.ok(result.split('\n').some(l => l.trim() === 'beta'), 'String after comment should be split');
+	});
+
+	test('Should not toggle when cursor is inside a comment', async () => {
+		const input = '// "alpha beta"';
+		const result = await testToggle(input, 0, 6);
+
+		assert.strictEqual(result, input, 'Quoted text inside a comment is not a string');
+	});
+
+	test('Should ignore apostrophe in a Python hash comment', async () => {
+		const input = [
+			"# don't touch",
+			"x = 'alpha beta'"
+		].join('\n');
+		const result = await testToggle(input, 1, 8, 'python');
+
+		const lines = result.split('\n');
+		assert.strictEqual(lines[0], "# don't touch", 'Comment should be unchanged');
+		assert.ok(lines.some(l => l.trim() === 'alpha'), 'String after comment should be split');
+	});
+
+	test('Should ignore apostrophe in a SQL dash comment', async () => {
+		const input = [
+			"-- can't fail",
+			"SELECT 'alpha beta';"
+		].join('\n');
+		const result = await testToggle(input, 1, 10, 'sql');
+
+		const lines = result.split('\n');
+		assert.strictEqual(lines[0], "-- can't fail", 'Comment should be unchanged');
+		assert.ok(lines.some(l => l.trim() === 'beta'), 'String after comment should be split');
+	});
+
+	test('Should ignore apostrophe in an HTML comment', async () => {
+		const input = [
+			"<!-- don't touch -->",
+			'<div class="alpha beta"></div>'
+		].join('\n');
+		const result = await testToggle(input, 1, 14, 'html');
+
+		const lines = result.split('\n');
+		assert.strictEqual(lines[0], "<!-- don't touch -->", 'Comment should be unchanged');
+		assert.ok(lines.some(l => l.trim() === 'alpha'), 'String after comment should be split');
+	});
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { openEditor, roundTrip, testToggle, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('C++ Raw Strings', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should split plain literal into raw literal', async () => {
+		const result = await testToggle('auto s = "a b c";', 0, 11, 'cpp');
+
+		assert.strictEqual(result, 'auto s = R"(\n  a\n  b\n  c\n)";', 'Should use a raw literal with empty delimiter');
+	});
+
+	test('Should pick a delimiter that does not occur in the content', async () => {
+		const result = await testToggle('auto s = "f(x) \\")\\" g";', 0, 11, 'cpp');
+
+		assert.ok(result.startsWith('auto s = R"raw(\n'), 'Should use a custom delimiter');
+		assert.ok(result.includes('  ")"\n'), 'Escaped quotes should become literal quotes');
+		assert.ok(result.endsWith(')raw";'), 'Should close with the same delimiter');
+	});
+
+	test('Should regenerate escapes on merge', async () => {
+		const { merged } = await roundTrip(await openEditor('auto s = "say \\"hi\\" \\\\ now";', 'cpp'), 0, 12);
+
+		assert.strictEqual(merged, 'auto s = "say \\"hi\\" \\\\ now";', 'Merge should restore the escaped plain literal');
+	});
+
+	test('Should keep encoding prefix', async () => {
+		const { split, merged } = await roundTrip(await openEditor('auto s = u8"alpha beta";', 'cpp'), 0, 14);
+
+		assert.ok(split.startsWith('auto s = u8R"(\n'), 'Should keep u8 prefix on the raw literal');
+		assert.strictEqual(merged, 'auto s = u8"alpha beta";', 'Should drop only the raw marker on merge');
+	});
+
+	test('Should detect raw literals with custom delimiters', async () => {
+		const input = 'auto s = R"sh(-DFOO=")" -DBAR)sh";';
+		const result = await testToggle(input, 0, 16, 'cpp');
+
+		assert.ok(result.includes('  -DFOO=")"\n'), 'Inner quote-paren should not end the literal');
+		assert.ok(result.endsWith(')sh";'), 'Should keep the custom delimiter');
+	});
+
+	test('Should not mistake char literals and digit separators for strings', async () => {
+		const input = "int n = 1'000; char q = '\"'; auto s = \"alpha beta\";";
+		const cursorChar = input.indexOf('alpha') + 1;
+		const result = await testToggle(input, 0, cursorChar, 'cpp');
+
+		assert.ok(result.split('\n').some(l => l.trim() === 'beta'), 'String after char literals should be split');
+	});
+
+	test('Should refuse to split when content has escapes without raw form', async () => {
+		const input = 'printf("a\\tb c");';
+		const result = await testToggle(input, 0, 9, 'cpp');
+
+		assert.strictEqual(result, input, 'Tab escape has no raw equivalent');
+	});
+
+	test('Should not produce raw literals in C', async () => {
+		const input = 'const char *s = "a b c";';
+		const result = await testToggle(input, 0, 18, 'c');
+
+		assert.strictEqual(result, input, 'C has no raw string literal to split into');
+	});
+});
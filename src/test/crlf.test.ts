@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { __test__ } from '../extension';
+import { openEditor, toggleAt, setConfig, wait, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('CRLF Documents', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	async function openCrlfEditor(content: string, language: string = 'typescript'): Promise<vscode.TextEditor> {
+		const editor = await openEditor(content, language);
+		assert.strictEqual(editor.document.eol, vscode.EndOfLine.CRLF, 'Test document should use CRLF');
+		return editor;
+	}
+
+	test('Should split with CRLF line endings only', async () => {
+		const editor = await openCrlfEditor('const a = 1;\r\nconst cls = "alpha beta";\r\n');
+		const result = await toggleAt(editor, 1, 14);
+
+		assert.strictEqual(result, 'const a = 1;\r\nconst cls = `\r\n  alpha\r\n  beta\r\n`;\r\n');
+		assert.ok(!/[^\r]\n/.test(result), 'No bare LF should be inserted');
+	});
+
+	test('Should merge a CRLF string back to the original', async () => {
+		const input = 'const a = 1;\r\nconst cls = "alpha  beta ";\r\nconst b = 2;';
+		const editor = await openCrlfEditor(input);
+		await toggleAt(editor, 1, 14);
+		const merged = await toggleAt(editor, 3, 3);
+
+		assert.strictEqual(merged, input, 'Round trip should be exact');
+	});
+
+	test('Should place the cursor on the same word in CRLF documents', async () => {
+		const editor = await openCrlfEditor('x();\r\nconst cls = "alpha beta gamma";');
+		await toggleAt(editor, 1, 'const cls = "alpha be'.length);
+
+		const cursor = editor.selection.active;
+		assert.strictEqual(cursor.line, 3, 'Cursor should be on the beta line');
+		assert.strictEqual(cursor.character, 4, 'Cursor should keep its offset in the word');
+
+		await toggleAt(editor, cursor.line, cursor.character);
+		assert.strictEqual(editor.selection.active.line, 1);
+		assert.strictEqual(editor.selection.active.character, 'const cls = "alpha be'.length, 'Merge should map the cursor back');
+	});
+
+	test('Should find and collapse tracked strings in CRLF documents', async () => {
+		await setConfig({ autoCollapseOnSave: true });
+		try {
+			const editor = await openCrlfEditor('const cls = "alpha beta";\r\nconst other = "x y";\r\n');
+			await toggleAt(editor, 0, 14);
+			await editor.edit(editBuilder => editBuilder.insert(new vscode.Position(0, 0), '// note\r\n'));
+			await wait(50);
+
+			const edits = __test__.collapseTrackedStrings(editor.document);
+			await editor.edit(editBuilder => edits.forEach(edit => editBuilder.replace(edit.range, edit.newText)));
+
+			assert.strictEqual(
+				editor.document.getText(),
+				'// note\r\nconst cls = "alpha beta";\r\nconst other = "x y";\r\n',
+				'Tracked string should follow the inserted line'
+			);
+		} finally {
+			await setConfig({ autoCollapseOnSave: false });
+		}
+	});
+
+	test('Should merge a CRLF heredoc', async () => {
+		const editor = await openCrlfEditor('cls = <<~EOS\r\n  px-2\r\n  py-1\r\nEOS\r\nputs cls', 'ruby');
+		const result = await toggleAt(editor, 1, 3);
+
+		assert.strictEqual(result, 'cls = "px-2 py-1"\r\nputs cls');
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { openEditor, roundTrip, atFirstLineEnd, testToggle, cleanupEditor } from './test-helpers';
+
+suite('C# Strings', () => {
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should split regular string into raw literal and restore it', async () => {
+		const { split, merged } = await roundTrip(await openEditor('var s = "say \\"hi\\" now";', 'csharp'), 0, 12, atFirstLineEnd);
+
+		assert.ok(split.startsWith('var s = """\n'), 'Should open a raw literal');
+		assert.ok(split.includes('  "hi"\n'), 'Escaped quotes should become literal quotes');
+		assert.strictEqual(merged, 'var s = "say \\"hi\\" now";', 'Should regenerate escapes on merge');
+	});
+
+	test('Should keep content lines indented at least as far as the closing delimiter', async () => {
+		const input = '    var s = "alpha beta";';
+		const result = await testToggle(input, 0, 16, 'csharp');
+
+		const lines = result.split('\n');
+		const closingIndent = lines[lines.length - 1].indexOf('"""');
+		assert.strictEqual(closingIndent, 4, 'Closing delimiter should sit at statement indent');
+		for (const line of lines.slice(1, -1)) {
+			assert.ok(line.startsWith(' '.repeat(closingIndent)), `Line "${line}" should be indented past the closing delimiter`);
+		}
+	});
+
+	test('Should detect verbatim strings with doubled quotes', async () => {
+		const input = 'var s = @"say ""hi"" now";';
+		const result = await testToggle(input, 0, 20, 'csharp');
+
+		assert.ok(result.startsWith('var s = @"\n'), 'Verbatim string can span lines as is');
+		assert.ok(result.includes('  ""hi""\n'), 'Doubled quotes should not end the string');
+	});
+
+	test('Should protect interpolation holes containing quotes', async () => {
+		const input = 'var s = $"px-2 {d["size"]} {{raw}}";';
+		const { split, merged } = await roundTrip(await openEditor(input, 'csharp'), 0, 13, atFirstLineEnd);
+
+		assert.ok(split.startsWith('var s = $$"""\n'), 'Literal braces should require a second dollar sign');
+		assert.ok(split.includes('  {{d["size"]}}\n'), 'Hole should use two braces');
+		assert.ok(split.includes('  {raw}\n'), 'Escaped braces should become literal braces');
+		assert.strictEqual(merged, input, 'Merge should restore the interpolated string');
+	});
+
+	test('Should detect interpolated raw literals', async () => {
+		const input = 'var s = $$"""{{a}} "b" c""";';
+		const result = await testToggle(input, 0, 20, 'csharp');
+
+		assert.ok(result.startsWith('var s = $$"""\n'), 'Should keep raw prefix and quotes');
+		assert.ok(result.includes('  "b"\n'), 'Inner quotes should not end the literal');
+	});
+
+	test('Should use more quotes when content contains a quote run', async () => {
+		const input = 'var s = "a \\"\\"\\" b";';
+		const result = await testToggle(input, 0, 10, 'csharp');
+
+		assert.ok(result.startsWith('var s = """"\n'), 'Should use four quotes');
+		assert.ok(result.endsWith('"""";'), 'Should close with four quotes');
+	});
+
+	test('Should not mistake char literal quote for a string', async () => {
+		const input = "char c = '\"'; var s = \"alpha beta\";";
+		const cursorChar = input.indexOf('alpha') + 1;
+		const result = await testToggle(input, 0, cursorChar, 'csharp');
+
+		assert.ok(result.split('\n').some(l => l.trim() === 'beta'), 'String after char literal should be split');
+	});
+});
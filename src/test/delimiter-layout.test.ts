@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { openEditor, roundTrip, toggleAt, setConfig, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Delimiter Layout', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+		await setConfig({ openingDelimiter: undefined, closingDelimiter: undefined });
+	});
+
+	test('Should hug the first token and close on the last token line', async () => {
+		await setConfig({ openingDelimiter: 'hugFirstToken', closingDelimiter: 'hugLastToken' });
+		const { split, merged } = await roundTrip(await openEditor('const cls = "alpha beta gamma";', 'typescript'), 0, 14, new vscode.Position(1, 3));
+
+		assert.strictEqual(split, 'const cls = `alpha\n  beta\n  gamma`;');
+		assert.strictEqual(merged, 'const cls = "alpha beta gamma";', 'Merge should recognize the hugging layout');
+	});
+
+	test('Should indent the closing delimiter with the tokens', async () => {
+		await setConfig({ openingDelimiter: undefined, closingDelimiter: 'indented' });
+		const { split, merged } = await roundTrip(await openEditor('const cls = "alpha beta";', 'typescript'), 0, 14, new vscode.Position(1, 3));
+
+		assert.strictEqual(split, 'const cls = `\n  alpha\n  beta\n  `;');
+		assert.strictEqual(merged, 'const cls = "alpha beta";', 'Merge should recognize the indented layout');
+	});
+
+	test('Should keep a single hugged token multi-line', async () => {
+		await setConfig({ openingDelimiter: 'hugFirstToken', closingDelimiter: 'hugLastToken' });
+		const editor = await openEditor('const cls = "alpha";');
+		const split = await toggleAt(editor, 0, 14);
+
+		assert.strictEqual(split, 'const cls = `alpha\n`;', 'Closing delimiter should move to its own line');
+	});
+
+	test('Should keep Java text block opener on its own line', async () => {
+		await setConfig({ openingDelimiter: 'hugFirstToken', closingDelimiter: 'hugLastToken' });
+		const { split, merged } = await roundTrip(await openEditor('String s = "alpha beta";', 'java'), 0, 13, new vscode.Position(1, 3));
+
+		assert.strictEqual(split, 'String s = """\n  alpha\n  beta""";', 'Text block content must start on the next line');
+		assert.strictEqual(merged, 'String s = "alpha beta";');
+	});
+
+	test('Should keep Swift closing delimiter on its own line', async () => {
+		await setConfig({ openingDelimiter: 'hugFirstToken', closingDelimiter: 'hugLastToken' });
+		const { split, merged } = await roundTrip(await openEditor('let s = "alpha beta"', 'swift'), 0, 10, new vscode.Position(1, 3));
+
+		assert.strictEqual(split, 'let s = """\n  alpha\n  beta\n"""', 'Swift delimiters must be on their own lines');
+		assert.strictEqual(merged, 'let s = "alpha beta"');
+	});
+
+	test('Should indent Swift closing delimiter with the tokens', async () => {
+		await setConfig({ openingDelimiter: undefined, closingDelimiter: 'indented' });
+		const { split, merged } = await roundTrip(await openEditor('let s = "alpha beta"', 'swift'), 0, 10, new vscode.Position(1, 3));
+
+		assert.strictEqual(split, 'let s = """\n  alpha\n  beta\n  """', 'Tokens should carry no indentation in the value');
+		assert.strictEqual(merged, 'let s = "alpha beta"');
+	});
+
+	test('Should keep the cursor on a hugged token', async () => {
+		await setConfig({ openingDelimiter: 'hugFirstToken', closingDelimiter: undefined });
+		const input = 'const cls = "alpha beta";';
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, input.indexOf('alpha') + 2);
+
+		assert.strictEqual(editor.selection.active.line, 0);
+		assert.strictEqual(editor.selection.active.character, input.indexOf('alpha') + 2, 'Cursor should stay inside alpha');
+	});
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { __test__ } from '../extension';
+import { openEditor, toggleAt, setConfig, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Delimiter Profiles', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should split a font stack on commas', async () => {
+		const editor = await openEditor('const font = \'Inter, "Helvetica Neue", sans-serif\';');
+		const result = await toggleAt(editor, 0, 16, 'comma');
+
+		assert.strictEqual(
+			result,
+			'const font = `\n  Inter,\n  "Helvetica Neue",\n  sans-serif\n`;',
+			'Items should keep inner spaces and end with the delimiter'
+		);
+	});
+
+	test('Should rejoin with the exact separator on manual merge', async () => {
+		const input = 'const flags = "alpha;beta;gamma";';
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 16, 'semicolon');
+		const merged = await toggleAt(editor, 1, 3);
+
+		assert.strictEqual(merged, input, 'Merge should use the separator recorded on split');
+	});
+
+	test('Should rejoin with the exact separator on auto-collapse', async function() {
+		this.timeout(5000);
+
+		const input = 'const sizes = "sm | md | lg";';
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 16, 'pipe');
+
+		const edits = __test__.collapseTrackedStrings(editor.document);
+		await editor.edit(editBuilder => {
+			for (const edit of edits) {
+				editBuilder.replace(edit.range, edit.newText);
+			}
+		});
+
+		assert.strictEqual(editor.document.getText(), input, 'Auto-collapse should use the recorded separator');
+	});
+
+	test('Should use the configured delimiter when none is chosen', async () => {
+		await setConfig({ delimiter: 'comma' });
+		try {
+			const editor = await openEditor('x = "a b, c d"', 'plaintext');
+			const result = await toggleAt(editor, 0, 6);
+
+			assert.strictEqual(result, 'x = "\n  a b,\n  c d\n"', 'Should split on the configured delimiter');
+		} finally {
+			await setConfig({ delimiter: undefined });
+		}
+	});
+
+	test('Should split on a custom pattern', async () => {
+		await setConfig({ customDelimiter: '\\s*/\\s*' });
+		try {
+			const editor = await openEditor('x = "a / b / c"', 'plaintext');
+			const split = await toggleAt(editor, 0, 6, 'custom');
+			const merged = await toggleAt(editor, 1, 3);
+
+			assert.strictEqual(split, 'x = "\n  a/\n  b/\n  c\n"', 'Should split on the custom separator');
+			assert.strictEqual(merged, 'x = "a / b / c"', 'Should restore the original separator');
+		} finally {
+			await setConfig({ customDelimiter: undefined });
+		}
+	});
+});
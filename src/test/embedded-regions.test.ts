@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { toggleAtWord, cleanupEditor } from './test-helpers';
+
+suite('Embedded Language Regions', () => {
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	async function splitLinesAtWord(lines: string[], word: string, language: string): Promise<string[]> {
+		const result = await toggleAtWord(lines.join('\n'), word, language);
+		return result.split('\n');
+	}
+
+	test('Should use TypeScript rules inside a Markdown fence', async () => {
+		const lines = await splitLinesAtWord([
+			'It\'s an example:',
+			'```ts',
+			'const cls = \'px-2 py-1\';',
+			'```'
+		], 'px-2', 'markdown');
+
+		assert.strictEqual(lines[2], 'const cls = `', 'Should switch to a template literal');
+		assert.strictEqual(lines[0], 'It\'s an example:', 'Prose should be unchanged');
+	});
+
+	test('Should keep JSX attribute quotes inside a tsx fence', async () => {
+		const lines = await splitLinesAtWord([
+			'```tsx',
+			'<div className="p-4 m-2" />',
+			'```'
+		], 'p-4', 'markdown');
+
+		assert.strictEqual(lines[1], '<div className="', 'JSX attribute should keep double quotes');
+	});
+
+	test('Should find inline code in prose after a fence', async () => {
+		const lines = await splitLinesAtWord([
+			'```ts',
+			'const a = 1;',
+			'```',
+			'',
+			'Use `foo bar` here and `baz qux` too.'
+		], 'foo', 'markdown');
+
+		assert.strictEqual(lines[4], 'Use `', 'Inline code span should be split');
+		assert.strictEqual(lines[lines.length - 1], '` here and `baz qux` too.', 'Following prose should be unchanged');
+	});
+
+	test('Should use Python rules inside a python fence', async () => {
+		const lines = await splitLinesAtWord([
+			'~~~python',
+			'x = "alpha beta"',
+			'~~~'
+		], 'alpha', 'markdown');
+
+		assert.strictEqual(lines[1], 'x = """', 'Should use triple quotes');
+	});
+
+	test('Should use TypeScript rules in a script block with lang attribute', async () => {
+		const lines = await splitLinesAtWord([
+			'<template><p>Don\'t</p></template>',
+			'<script lang="ts">',
+			'const cls: string = "flex gap-2";',
+			'</script>'
+		], 'flex', 'html');
+
+		assert.strictEqual(lines[2], 'const cls: string = `', 'Should switch to a template literal');
+	});
+
+	test('Should keep markup attribute quotes outside the script block', async () => {
+		const lines = await splitLinesAtWord([
+			'<script>',
+			'let active = false;',
+			'</script>',
+			'<div class="flex gap-2"></div>'
+		], 'flex', 'html');
+
+		assert.strictEqual(lines[3], '<div class="', 'Markup attribute should keep double quotes');
+	});
+
+	test('Should find strings in an HTML script after text with an apostrophe', async () => {
+		const lines = await splitLinesAtWord([
+			'<p>It\'s here</p>',
+			'<script>const s = "alpha beta";</script>'
+		], 'alpha', 'html');
+
+		assert.strictEqual(lines[1], '<script>const s = `', 'Script string should use JavaScript rules');
+	});
+});
@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { openEditor, roundTrip, testToggle, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Escape Semantics', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should escape template syntax when converting to a template literal', async () => {
+		const input = "const s = 'a`b ${c} it\\'s';";
+		const { split, merged } = await roundTrip(await openEditor(input, 'typescript'), 0, 12);
+
+		assert.strictEqual(split, "const s = `\n  a\\`b\n  \\${c}\n  it's\n`;", 'Backticks and ${ should stay literal');
+		assert.strictEqual(merged, input, 'Merge should restore the original escapes');
+	});
+
+	test('Should refuse legacy octal escapes that template literals reject', async () => {
+		const input = "const s = 'a\\01 b';";
+		const result = await testToggle(input, 0, 12);
+
+		assert.strictEqual(result, input);
+	});
+
+	test('Should refuse Go escapes that a raw string cannot express', async () => {
+		const input = 'var s = "a\\tb c"';
+		const result = await testToggle(input, 0, 10, 'go');
+
+		assert.strictEqual(result, input, 'A tab escape has no raw string equivalent');
+	});
+
+	test('Should decode Go escapes into a raw string and re-encode them on merge', async () => {
+		const input = 'var s = "C:\\\\dir \\"q\\""';
+		const { split, merged } = await roundTrip(await openEditor(input, 'go'), 0, 10);
+
+		assert.strictEqual(split, 'var s = `\n  C:\\dir\n  "q"\n`');
+		assert.strictEqual(merged, input);
+	});
+
+	test('Should fall back to single triple quotes for raw Python strings with double quotes', async () => {
+		const input = "s = r'say \"hi\" \\d'";
+		const { split, merged } = await roundTrip(await openEditor(input, 'python'), 0, 8);
+
+		assert.ok(split.startsWith("s = r'''\n"), 'A raw string cannot escape the double quote');
+		assert.strictEqual(merged, input);
+	});
+
+	test('Should write literal dollars as templates in Kotlin raw strings', async () => {
+		const input = 'val s = "cost \\$price now"';
+		const { split, merged } = await roundTrip(await openEditor(input, 'kotlin'), 0, 10);
+
+		assert.ok(split.includes("  ${'$'}price\n"), 'A raw string would read $price as a template');
+		assert.strictEqual(merged, input);
+	});
+
+	test('Should refuse Lua escapes that a long bracket cannot express', async () => {
+		const input = 'local s = "a\\nb c"';
+		const result = await testToggle(input, 0, 12, 'lua');
+
+		assert.strictEqual(result, input, 'A newline escape has no long bracket equivalent');
+	});
+});
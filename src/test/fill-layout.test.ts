@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { openEditor, toggleAt, setConfig, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Fill Layout', () => {
+	useTwoSpaceIndent();
+
+	const input = 'const cls = "flex items-center justify-between px-4 py-2 bg-white text-sm font-medium";';
+
+	suiteSetup(async () => {
+		await setConfig({ layout: 'fill', maxLineLength: 30 });
+	});
+
+	suiteTeardown(async () => {
+		await setConfig({ layout: undefined, maxLineLength: undefined });
+	});
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should pack tokens up to the maximum line length', async () => {
+		const editor = await openEditor(input);
+		const result = await toggleAt(editor, 0, 14);
+
+		assert.strictEqual(
+			result,
+			'const cls = `\n  flex items-center\n  justify-between px-4 py-2\n  bg-white text-sm font-medium\n`;',
+			'Tokens should fill each line'
+		);
+		for (const line of result.split('\n')) {
+			assert.ok(line.length <= 30, `Line should fit the limit: ${line}`);
+		}
+	});
+
+	test('Should merge a filled string back exactly', async () => {
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 14);
+		const merged = await toggleAt(editor, 2, 4);
+
+		assert.strictEqual(merged, input, 'Merge should undo the fill layout');
+	});
+
+	test('Should keep the cursor on the same token with several tokens per line', async () => {
+		const editor = await openEditor(input);
+		const cursorChar = input.indexOf('py-2') + 1;
+		await toggleAt(editor, 0, cursorChar);
+
+		const splitCursor = editor.selection.active;
+		assert.strictEqual(splitCursor.line, 2, 'Cursor should be on the second item line');
+		assert.strictEqual(
+			editor.document.lineAt(2).text.substring(splitCursor.character - 1, splitCursor.character + 3),
+			'py-2',
+			'Cursor should keep its offset in the token'
+		);
+
+		await toggleAt(editor, splitCursor.line, splitCursor.character);
+		assert.strictEqual(editor.selection.active.character, cursorChar, 'Cursor should return to the same character');
+	});
+
+	test('Should keep comma marks at the end of filled lines', async () => {
+		const content = 'const font = "Inter, Roboto, Helvetica, Arial, sans-serif";';
+		const editor = await openEditor(content);
+		const split = await toggleAt(editor, 0, 15, 'comma');
+
+		assert.strictEqual(
+			split,
+			'const font = `\n  Inter, Roboto, Helvetica,\n  Arial, sans-serif\n`;',
+			'Only line ends should carry the delimiter'
+		);
+
+		const merged = await toggleAt(editor, 1, 4);
+		assert.strictEqual(merged, content, 'Merge should restore the separators');
+	});
+});
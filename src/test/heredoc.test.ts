@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import { openEditor, roundTrip, setConfig, testToggle, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Heredocs', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should merge Ruby squiggly heredoc into a string', async () => {
+		const input = 'cls = <<~CLASSES.strip\n  px-2\n  py-1\nCLASSES\nputs cls';
+		const result = await testToggle(input, 1, 3, 'ruby');
+
+		assert.strictEqual(result, 'cls = "px-2 py-1".strip\nputs cls', 'Method call after opener should follow the string');
+	});
+
+	test('Should merge quoted Ruby heredoc into a single-quoted string', async () => {
+		const input = "cls = <<~'EOS'\n  a #{b}\n  EOS";
+		const result = await testToggle(input, 1, 3, 'ruby');
+
+		assert.strictEqual(result, "cls = 'a #{b}'", 'Literal heredoc should stay non-interpolating');
+	});
+
+	test('Should not mistake shift operator for a heredoc', async () => {
+		const input = 'x = a << b; s = "alpha beta"';
+		const cursorChar = input.indexOf('alpha') + 1;
+		const result = await testToggle(input, 0, cursorChar, 'ruby');
+
+		assert.ok(result.startsWith('x = a << b; s = "\n'), 'String after shift should be split');
+	});
+
+	test('Should split Ruby string into heredoc and back when enabled', async () => {
+		await setConfig({ splitToHeredoc: true });
+		try {
+			const { split, merged } = await roundTrip(await openEditor('cls = "px-2 py-1".strip', 'ruby'), 0, 8);
+
+			assert.strictEqual(split, 'cls = <<~EOS.strip\n  px-2\n  py-1\nEOS', 'Should move trailing code to the opener line');
+			assert.strictEqual(merged, 'cls = "px-2 py-1".strip', 'Should restore the original string');
+		} finally {
+			await setConfig({ splitToHeredoc: undefined });
+		}
+	});
+
+	test('Should pick a heredoc identifier that does not occur as a word', async () => {
+		await setConfig({ splitToHeredoc: true });
+		try {
+			const result = await testToggle('s = "EOS other"', 0, 6, 'ruby');
+
+			assert.ok(result.startsWith('s = <<~EOS1\n'), 'Should add a suffix to the identifier');
+			assert.ok(result.endsWith('\nEOS1'), 'Should close with the same identifier');
+		} finally {
+			await setConfig({ splitToHeredoc: undefined });
+		}
+	});
+
+	test('Should detect PHP heredoc and nowdoc', async () => {
+		const heredoc = await testToggle('$s = <<<EOT\n    a\n    b\n    EOT;', 1, 5, 'php');
+		assert.strictEqual(heredoc, '$s = "a b";', 'Heredoc should merge to a double-quoted string');
+		await cleanupEditor();
+
+		const nowdoc = await testToggle("$s = <<<'EOT'\n    it's\n    $b\n    EOT;", 1, 5, 'php');
+		assert.strictEqual(nowdoc, "$s = 'it\\'s $b';", 'Nowdoc should merge to an escaped single-quoted string');
+	});
+
+	test('Should split PHP single-quoted string into nowdoc when enabled', async () => {
+		await setConfig({ splitToHeredoc: true });
+		try {
+			const { split, merged } = await roundTrip(await openEditor("$s = 'a $b';", 'php'), 0, 7);
+
+			assert.strictEqual(split, "$s = <<<'EOT'\n  a\n  $b\nEOT;", 'Should use a nowdoc for a non-interpolating string');
+			assert.strictEqual(merged, "$s = 'a $b';", 'Should restore the single-quoted string');
+		} finally {
+			await setConfig({ splitToHeredoc: undefined });
+		}
+	});
+
+	test('Should merge shell heredoc into a here-string', async () => {
+		const input = 'cat <<EOF | grep x\n  alpha\n  beta\nEOF';
+		const result = await testToggle(input, 1, 3, 'shellscript');
+
+		assert.strictEqual(result, 'cat <<< "alpha beta" | grep x', 'Should keep the pipeline after the here-string');
+	});
+
+	test('Should split shell here-string into heredoc with unindented terminator', async () => {
+		await setConfig({ splitToHeredoc: true });
+		try {
+			const input = "  cat <<< 'a b' | grep x";
+			const { split, merged } = await roundTrip(await openEditor(input, 'shellscript'), 0, 13);
+
+			assert.strictEqual(split, "  cat <<'EOF' | grep x\n    a\n    b\nEOF", 'Terminator should start the line');
+			assert.strictEqual(merged, input, 'Should restore the here-string');
+		} finally {
+			await setConfig({ splitToHeredoc: undefined });
+		}
+	});
+});
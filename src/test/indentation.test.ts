@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { wait, cleanupEditor } from './test-helpers';
+
+suite('Indentation', () => {
+	teardown(async () => {
+		await cleanupEditor();
+		const config = vscode.workspace.getConfiguration('splitSpacedStrings');
+		await config.update('continuationIndent', undefined, vscode.ConfigurationTarget.Global);
+		await config.update('alignToQuote', undefined, vscode.ConfigurationTarget.Global);
+	});
+
+	async function splitWith(
+		content: string,
+		language: string,
+		cursorChar: number,
+		options: vscode.TextEditorOptions
+	): Promise<string> {
+		const document = await vscode.workspace.openTextDocument({ content, language });
+		const editor = await vscode.window.showTextDocument(document);
+		editor.options = options;
+
+		const position = new vscode.Position(0, cursorChar);
+		editor.selection = new vscode.Selection(position, position);
+		await vscode.commands.executeCommand('split-spaced-strings.toggleSplit');
+		await wait(100);
+		return editor.document.getText();
+	}
+
+	test('Should indent with a tab in tab-indented documents', async () => {
+		const result = await splitWith('\ts := "alpha beta"', 'go', 8, { insertSpaces: false, tabSize: 4 });
+
+		assert.strictEqual(result, '\ts := `\n\t\talpha\n\t\tbeta\n\t`', 'Split lines should not mix tabs and spaces');
+	});
+
+	test('Should indent by the editor tab size', async () => {
+		const result = await splitWith('s = "alpha beta"', 'python', 6, { insertSpaces: true, tabSize: 4 });
+
+		assert.strictEqual(result, 's = """\n    alpha\n    beta\n"""', 'One level should be four spaces');
+	});
+
+	test('Should use a configured number of indent levels', async () => {
+		await vscode.workspace.getConfiguration('splitSpacedStrings')
+			.update('continuationIndent', 2, vscode.ConfigurationTarget.Global);
+		const result = await splitWith('\ts := "alpha beta"', 'go', 8, { insertSpaces: false, tabSize: 4 });
+
+		assert.strictEqual(result, '\ts := `\n\t\t\talpha\n\t\t\tbeta\n\t`', 'Two levels should be two tabs');
+	});
+
+	test('Should use an explicit continuation indent string', async () => {
+		await vscode.workspace.getConfiguration('splitSpacedStrings')
+			.update('continuationIndent', '   ', vscode.ConfigurationTarget.Global);
+		const result = await splitWith('s = "alpha beta"', 'python', 6, { insertSpaces: true, tabSize: 4 });
+
+		assert.strictEqual(result, 's = """\n   alpha\n   beta\n"""', 'The string should be used as-is');
+	});
+
+	test('Should align tokens with the opening quote column', async () => {
+		await vscode.workspace.getConfiguration('splitSpacedStrings')
+			.update('alignToQuote', true, vscode.ConfigurationTarget.Global);
+		const result = await splitWith('\tx := "alpha beta"', 'go', 8, { insertSpaces: false, tabSize: 4 });
+
+		assert.strictEqual(result, '\tx := `\n\t     alpha\n\t     beta\n\t`', 'Tokens should start under the opening quote');
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { __test__ } from '../extension';
+import { openEditor, toggleAt, cleanupEditor } from './test-helpers';
+
+suite('Lossless Round Trip', () => {
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should restore padding and irregular whitespace', async () => {
+		const input = 'const cls = " btn  btn-primary\tlarge ";';
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 15);
+		const merged = await toggleAt(editor, 1, 3);
+
+		assert.strictEqual(merged, input, 'Merge should restore the exact content');
+	});
+
+	test('Should restore a trailing space used in concatenation', async () => {
+		const input = "const cls = 'btn ' + size;";
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 14);
+		const merged = await toggleAt(editor, 1, 3);
+
+		assert.strictEqual(merged, input, 'Trailing space should survive the round trip');
+	});
+
+	test('Should restore whitespace around comma delimiters', async () => {
+		const input = 'const font = "Inter,Roboto ,  sans-serif";';
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 16, 'comma');
+		const merged = await toggleAt(editor, 1, 3);
+
+		assert.strictEqual(merged, input, 'Separators should be restored exactly');
+	});
+
+	test('Should normalize whitespace when tokens were edited', async () => {
+		const editor = await openEditor('const cls = "a  b";');
+		await toggleAt(editor, 0, 14);
+		await editor.edit(editBuilder => editBuilder.insert(new vscode.Position(2, 3), 'c'));
+		const merged = await toggleAt(editor, 1, 3);
+
+		assert.strictEqual(merged, 'const cls = "a bc";', 'Edited tokens should be joined with the separator');
+	});
+
+	test('Should restore exact content on auto-collapse', async () => {
+		const input = 'const cls = "a   b ";';
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 14);
+
+		const edits = __test__.collapseTrackedStrings(editor.document);
+		await editor.edit(editBuilder => edits.forEach(edit => editBuilder.replace(edit.range, edit.newText)));
+
+		assert.strictEqual(editor.document.getText(), input, 'Collapse should be lossless too');
+	});
+});
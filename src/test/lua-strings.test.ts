@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { openEditor, roundTrip, testToggle, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Lua Long Strings', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should split short string into long bracket and restore it', async () => {
+		const { split, merged } = await roundTrip(await openEditor('local s = "alpha beta"', 'lua'), 0, 12);
+
+		assert.strictEqual(split, 'local s = [[\n  alpha\n  beta\n]]', 'Should use a long bracket string');
+		assert.strictEqual(merged, 'local s = "alpha beta"', 'Should restore the short string');
+	});
+
+	test('Should unescape quotes and re-escape them on merge', async () => {
+		const { split, merged } = await roundTrip(await openEditor('local s = \'it\\\'s "ok"\'', 'lua'), 0, 12);
+
+		assert.ok(split.includes('  it\'s\n'), 'Escaped quote should become literal');
+		assert.strictEqual(merged, 'local s = \'it\\\'s "ok"\'', 'Merge should regenerate escapes');
+	});
+
+	test('Should raise bracket level when content contains closing brackets', async () => {
+		const result = await testToggle('local s = "t[i[1]] x"', 0, 12, 'lua');
+
+		assert.ok(result.startsWith('local s = [=[\n'), 'Should open with level one');
+		assert.ok(result.endsWith('\n]=]'), 'Should close with level one');
+	});
+
+	test('Should detect leveled long strings', async () => {
+		const result = await testToggle('local s = [==[a ]] "b" c]==]', 0, 16, 'lua');
+
+		assert.ok(result.includes('  ]]\n'), 'Lower-level close should not end the string');
+		assert.ok(result.endsWith('\n]==]'), 'Should keep the level');
+	});
+
+	test('Should ignore apostrophe in a dash comment', async () => {
+		const input = '-- it\'s a comment\nlocal s = "alpha beta"';
+		const result = await testToggle(input, 1, 12, 'lua');
+
+		assert.ok(result.startsWith('-- it\'s a comment\nlocal s = [[\n'), 'String after comment should be split');
+	});
+
+	test('Should ignore apostrophe in a leveled long comment', async () => {
+		const input = '--[==[\n it\'s a comment\n]==]\nlocal s = "alpha beta"';
+		const result = await testToggle(input, 3, 12, 'lua');
+
+		assert.ok(result.startsWith('--[==[\n it\'s a comment\n]==]\nlocal s = [[\n'), 'String after comment should be split');
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { testToggle, wait, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Nested Template Literals', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	const input = 'const c = `base ${active ? "bg-blue-500 text-white" : \'bg-gray-100\'} p-4`;';
+
+	test('Should split string inside substitution without touching the template', async () => {
+		const result = await testToggle(input, 0, input.indexOf('text-white'), 'typescript');
+
+		assert.strictEqual(
+			result,
+			'const c = `base ${active ? `\n  bg-blue-500\n  text-white\n` : \'bg-gray-100\'} p-4`;',
+			'Only the inner ternary branch should be split'
+		);
+	});
+
+	test('Should pick the other ternary branch under the cursor', async () => {
+		const result = await testToggle(input, 0, input.indexOf('bg-gray') + 3, 'typescript');
+
+		assert.ok(
+			result.startsWith('const c = `base ${active ? "bg-blue-500 text-white" : `\n'),
+			'First branch and outer template should be unchanged'
+		);
+		assert.ok(result.endsWith('\n`} p-4`;'), 'Template should close after the substitution');
+	});
+
+	test('Should merge inner branch back to its original quotes', async () => {
+		const document = await vscode.workspace.openTextDocument({ content: input, language: 'typescript' });
+		const editor = await vscode.window.showTextDocument(document);
+
+		let position = new vscode.Position(0, input.indexOf('text-white'));
+		editor.selection = new vscode.Selection(position, position);
+		await vscode.commands.executeCommand('split-spaced-strings.toggleSplit');
+		await wait(100);
+
+		position = new vscode.Position(2, 4);
+		editor.selection = new vscode.Selection(position, position);
+		await vscode.commands.executeCommand('split-spaced-strings.toggleSplit');
+		await wait(100);
+
+		assert.strictEqual(editor.document.getText(), input, 'Round trip should restore the line');
+	});
+
+	test('Should pick the innermost literal in nested templates', async () => {
+		const nested = 'const d = `a ${`b ${"c d"}`} e`;';
+		const result = await testToggle(nested, 0, nested.indexOf('c d') + 1, 'typescript');
+
+		assert.strictEqual(result, 'const d = `a ${`b ${`\n  c\n  d\n`}`} e`;', 'Only the innermost string should be split');
+	});
+
+	test('Should keep pairing strings after template with nested backticks', async () => {
+		const line = 'const d = `a ${`b`} c`; const x = "alpha beta";';
+		const result = await testToggle(line, 0, line.indexOf('alpha') + 1, 'typescript');
+
+		assert.ok(result.startsWith('const d = `a ${`b`} c`; const x = `\n'), 'String after template should be split');
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { openEditor, roundTrip, testToggle, cleanupEditor } from './test-helpers';
+
+suite('Python String Prefixes', () => {
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should keep f prefix when splitting', async () => {
+		const result = await testToggle('cls = f"px-2 {size}"', 0, 10, 'python');
+
+		assert.ok(result.startsWith('cls = f"""\n'), 'f-string should stay an f-string');
+		assert.ok(result.includes('{size}'), 'Should keep replacement field');
+	});
+
+	test('Should restore f-string on merge', async () => {
+		const { merged } = await roundTrip(await openEditor('cls = f"px-2 {size}"', 'python'), 0, 10);
+
+		assert.strictEqual(merged, 'cls = f"px-2 {size}"', 'Should restore the original f-string');
+	});
+
+	test('Should keep raw strings raw in both directions', async () => {
+		const { split, merged } = await roundTrip(await openEditor("pattern = r'a\\d b\\w'", 'python'), 0, 14);
+
+		assert.ok(split.startsWith('pattern = r"""\n'), 'Split should produce a raw triple-quoted string');
+		assert.strictEqual(merged, "pattern = r'a\\d b\\w'", 'Merge should restore the raw string');
+	});
+
+	test('Should keep two-letter prefixes', async () => {
+		const result = await testToggle("data = rb'alpha beta'", 0, 12, 'python');
+
+		assert.ok(result.startsWith('data = rb"""\n'), 'Should keep rb prefix');
+	});
+
+	test('Should keep triple quotes for f-string with quoted replacement field', async () => {
+		const { merged } = await roundTrip(await openEditor('x = f"a {d[\'k\']} b"', 'python'), 0, 7);
+
+		assert.ok(merged.startsWith('x = f"""'), 'Should not restore a quote that clashes with the replacement field');
+	});
+
+	test('Should keep uppercase prefixes', async () => {
+		const result = await testToggle('label = F"alpha {beta}"', 0, 12, 'python');
+
+		assert.ok(result.startsWith('label = F"""\n'), 'Should keep F prefix as written');
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { scanStringTokens } from '../lexer';
+import { toggleAtWord, cleanupEditor } from './test-helpers';
+
+suite('Regex Literals', () => {
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	async function splitAfter(input: string, word: string, language: string = 'typescript'): Promise<string[]> {
+		const result = await toggleAtWord(input, word, language);
+		return result.split('\n').map(line => line.trim());
+	}
+
+	test('Should ignore quotes inside a regex before a className string', async () => {
+		const lines = await splitAfter('const ok = /["\']/.test(x); const cls = "px-2 py-1";', 'px-2');
+
+		assert.ok(lines.includes('px-2'), 'className string should be split');
+		assert.ok(lines[0].startsWith('const ok = /["\']/.test(x);'), 'Regex should be left untouched');
+	});
+
+	test('Should ignore backtick inside a regex', async () => {
+		const lines = await splitAfter('const re = /`/g; const cls = `flex gap-2`;', 'flex');
+
+		assert.ok(lines.includes('gap-2'), 'Template literal after regex should be split');
+	});
+
+	test('Should ignore slash and quote inside a character class', async () => {
+		const lines = await splitAfter('const re = /[/"]+/; const cls = "m-1 m-2";', 'm-1');
+
+		assert.ok(lines.includes('m-2'), 'String after character class should be split');
+	});
+
+	test('Should detect regex after return keyword', async () => {
+		const lines = await splitAfter('function f(s) { return /\'/.test(s) ? "a b" : ""; }', 'a b');
+
+		assert.ok(lines.includes('b'), 'String after regex in return statement should be split');
+	});
+
+	test('Should treat slash after operand as division', async () => {
+		const lines = await splitAfter('const r = total / count; const cls = \'a b\'; const t = x / y;', 'a b');
+
+		assert.ok(lines.includes('b'), 'String between divisions should be split');
+	});
+
+	test('Should ignore regex in JSX event handler next to className', async () => {
+		const lines = await splitAfter('<input onChange={e => /"/.test(e)} className="p-4 m-2" />', 'p-4', 'typescriptreact');
+
+		assert.ok(lines.includes('m-2'), 'className after regex should be split');
+	});
+
+	test('Should not read a closing JSX tag as a regex', async () => {
+		const lines = await splitAfter('<div className="w-1/2"></div><span className="a b"/>', 'a b', 'typescriptreact');
+
+		assert.ok(lines.includes('b'), 'className after a closing tag should be split');
+	});
+
+	test('Should treat slash after a postfix increment as division', () => {
+		const text = 'let a = x++ / 2; let s = "a/b"; k="l"; let b = f()-- / 2;';
+		const tokens = scanStringTokens(text, 'typescript').map(token => text.substring(token.start, token.end));
+
+		assert.deepStrictEqual(tokens, ['"a/b"', '"l"'], 'No regex should start after the increment');
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { openEditor, roundTrip, testToggle, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Rust Strings', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should keep plain literal when content has no quotes', async () => {
+		const result = await testToggle('let s = "alpha beta";', 0, 12, 'rust');
+
+		assert.strictEqual(result, 'let s = "\n  alpha\n  beta\n";', 'Plain literal can span lines');
+	});
+
+	test('Should split to raw string when content has quotes', async () => {
+		const { split, merged } = await roundTrip(await openEditor('let s = "say \\"hi\\" now";', 'rust'), 0, 12);
+
+		assert.ok(split.startsWith('let s = r#"\n'), 'Should open a raw string with one hash');
+		assert.ok(split.includes('  "hi"\n'), 'Quotes should be unescaped inside raw string');
+		assert.ok(split.endsWith('"#;'), 'Should close with matching hash');
+		assert.strictEqual(merged, 'let s = "say \\"hi\\" now";', 'Merge should return to the normal literal');
+	});
+
+	test('Should add hash guards when content contains quote-hash', async () => {
+		const result = await testToggle('let s = "a \\"#b c";', 0, 10, 'rust');
+
+		assert.ok(result.startsWith('let s = r##"\n'), 'Should use two hashes');
+		assert.ok(result.endsWith('"##;'), 'Should close with two hashes');
+	});
+
+	test('Should keep byte prefix', async () => {
+		const result = await testToggle('let s = b"x \\"y\\"";', 0, 11, 'rust');
+
+		assert.ok(result.startsWith('let s = br#"\n'), 'Byte string should become raw byte string');
+	});
+
+	test('Should detect raw strings with hash guards', async () => {
+		const input = 'let s = r#"alpha "beta" gamma"#;';
+		const result = await testToggle(input, 0, 14, 'rust');
+
+		assert.ok(result.startsWith('let s = r#"\n'), 'Should keep raw string');
+		assert.ok(result.includes('  "beta"\n'), 'Inner quotes should not end the string');
+		assert.ok(result.endsWith('"#;'), 'Should close with matching hash');
+	});
+
+	test('Should not mistake lifetimes and char literals for strings', async () => {
+		const input = "fn f<'a>(c: &'a str) -> char { let q = '\"'; \"alpha beta\" }";
+		const cursorChar = input.indexOf('alpha') + 1;
+		const result = await testToggle(input, 0, cursorChar, 'rust');
+
+		assert.ok(result.split('\n').some(l => l.trim() === 'beta'), 'String after char literal should be split');
+	});
+
+	test('Should keep escapes without raw equivalent in a normal literal', async () => {
+		const result = await testToggle('let s = "a\\t\\"b\\" c";', 0, 11, 'rust');
+
+		assert.ok(result.startsWith('let s = "\n'), 'Tab escape has no raw form');
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { openEditor, toggleAt, setConfig, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Sort Tokens', () => {
+	useTwoSpaceIndent();
+
+	suiteSetup(async () => {
+		await setConfig({ sortTokens: true });
+	});
+
+	suiteTeardown(async () => {
+		await setConfig({ sortTokens: undefined });
+	});
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should sort classes into canonical order on split', async () => {
+		const editor = await openEditor('const cls = "text-white hover:bg-blue-600 px-4 flex bg-blue-500";');
+		const result = await toggleAt(editor, 0, 14);
+
+		assert.strictEqual(
+			result,
+			'const cls = `\n  flex\n  bg-blue-500\n  px-4\n  text-white\n  hover:bg-blue-600\n`;',
+			'Base utilities should follow property order, variants last'
+		);
+	});
+
+	test('Should keep unrecognized tokens in place', async () => {
+		const editor = await openEditor('const cls = "btn p-2 card flex";');
+		const result = await toggleAt(editor, 0, 14);
+
+		assert.strictEqual(
+			result,
+			'const cls = `\n  btn\n  flex\n  card\n  p-2\n`;',
+			'Custom classes should keep their positions'
+		);
+	});
+
+	test('Should sort on merge', async () => {
+		const editor = await openEditor('const cls = `\n  p-2\n  flex\n`;');
+		const result = await toggleAt(editor, 1, 3);
+
+		assert.strictEqual(result, 'const cls = `flex p-2`;', 'Merged classes should be sorted');
+	});
+
+	test('Should keep the cursor on the moved token', async () => {
+		const input = 'const cls = "p-2 flex";';
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, input.indexOf('flex') + 2);
+
+		const cursor = editor.selection.active;
+		assert.strictEqual(cursor.line, 1, 'Cursor should follow flex to the first line');
+		assert.strictEqual(cursor.character, 4, 'Cursor should keep its offset in the token');
+	});
+
+	test('Should not sort comma-separated strings', async () => {
+		const editor = await openEditor('const s = "p-2, flex";');
+		const result = await toggleAt(editor, 0, 12, 'comma');
+
+		assert.strictEqual(result, 'const s = `\n  p-2,\n  flex\n`;', 'Items should keep their order');
+	});
+});
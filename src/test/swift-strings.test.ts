@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { openEditor, roundTrip, atFirstLineEnd, testToggle, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Swift Strings', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should split into multi-line string and restore it', async () => {
+		const { split, merged } = await roundTrip(await openEditor('let s = "say \\"hi\\" now"', 'swift'), 0, 11, atFirstLineEnd);
+
+		assert.strictEqual(split, 'let s = """\n  say\n  "hi"\n  now\n"""', 'Quotes need no escaping in multi-line string');
+		assert.strictEqual(merged, 'let s = "say \\"hi\\" now"', 'Merge should regenerate escapes');
+	});
+
+	test('Should keep content lines indented past the closing delimiter', async () => {
+		const result = await testToggle('    let s = "alpha beta"', 0, 16, 'swift');
+
+		const lines = result.split('\n');
+		const closingIndent = lines[lines.length - 1].indexOf('"""');
+		assert.strictEqual(closingIndent, 4, 'Closing delimiter should sit at statement indent');
+		for (const line of lines.slice(1, -1)) {
+			assert.ok(line.startsWith(' '.repeat(closingIndent)), `Line "${line}" should be indented past the closing delimiter`);
+		}
+	});
+
+	test('Should keep extended delimiters', async () => {
+		const { split, merged } = await roundTrip(await openEditor('let s = #"a "b" \\#(c)"#', 'swift'), 0, 10, atFirstLineEnd);
+
+		assert.ok(split.startsWith('let s = #"""\n'), 'Should open an extended multi-line string');
+		assert.ok(split.endsWith('\n"""#'), 'Should close with the same delimiter');
+		assert.strictEqual(merged, 'let s = #"a "b" \\#(c)"#', 'Merge should restore the extended string');
+	});
+
+	test('Should not end string at quotes inside interpolation', async () => {
+		const input = 'let s = "px \\(d["size"]) py"';
+		const result = await testToggle(input, 0, 10, 'swift');
+
+		assert.ok(result.includes('  \\(d["size"])\n'), 'Interpolation should stay intact');
+	});
+
+	test('Should always merge multi-line string into a single-line literal', async () => {
+		const input = 'let s = """\n  alpha "b"\n  """';
+		const result = await testToggle(input, 1, 4, 'swift');
+
+		assert.strictEqual(result, 'let s = "alpha \\"b\\""', 'Single-line triple-quoted string is not valid Swift');
+	});
+});
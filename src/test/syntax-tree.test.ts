@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { __test__ } from '../extension';
+import { testToggle, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Syntax Tree String Detection', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	async function findString(content: string, word: string, language: string) {
+		const document = await vscode.workspace.openTextDocument({ content, language });
+		await vscode.window.showTextDocument(document);
+		return __test__.findStringAtCursor(document, document.positionAt(content.indexOf(word) + 1));
+	}
+
+	test('Should report string kind and parent context', async () => {
+		const info = await findString('<div className="px-2 py-1" />', 'px-2', 'typescriptreact');
+
+		assert.ok(info, 'Should find the attribute string');
+		assert.strictEqual(info.kind, 'stringLiteral');
+		assert.strictEqual(info.parentKind, 'JsxAttribute');
+	});
+
+	test('Should distinguish template kinds', async () => {
+		const content = 'const a = `plain text`; const b = `with ${x} span`;';
+		const plain = await findString(content, 'plain', 'typescript');
+		const spans = await findString(content, 'with', 'typescript');
+
+		assert.strictEqual(plain?.kind, 'noSubstitutionTemplate');
+		assert.strictEqual(spans?.kind, 'templateExpression');
+	});
+
+	test('Should not be confused by apostrophe in JSX text', async () => {
+		const input = '<p>\n  don\'t stop\n  <span className="a b" />\n</p>';
+		const result = await testToggle(input, 2, 21, 'typescriptreact');
+
+		assert.ok(result.includes('className="\n'), 'Attribute after JSX text apostrophe should be split');
+		assert.ok(result.includes('don\'t stop'), 'JSX text should be unchanged');
+	});
+
+	test('Should split JSX text onto separate lines', async () => {
+		const result = await testToggle('<p>hello world</p>', 0, 6, 'javascriptreact');
+
+		assert.strictEqual(result, '<p>\n  hello\n  world\n</p>', 'JSX text words should go on their own lines');
+	});
+
+	test('Should not treat type-position angle brackets as JSX', async () => {
+		const input = 'const m = new Map<string, string>(); const s = "alpha beta";';
+		const result = await testToggle(input, 0, input.indexOf('alpha') + 1, 'typescript');
+
+		assert.ok(result.includes('  alpha\n  beta\n'), 'String after generic type should be split');
+	});
+});
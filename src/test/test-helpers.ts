@@ -62,6 +62,82 @@ export async function testCursorPosition(
 	}
 }
 
+/**
+ * Helper to open a test document in an editor
+ */
+export async function openEditor(content: string, language: string = 'typescript'): Promise<vscode.TextEditor> {
+	const document = await vscode.workspace.openTextDocument({ content, language });
+	return vscode.window.showTextDocument(document);
+}
+
+/**
+ * Helper to execute the toggle command at a position in an open editor,
+ * optionally with a delimiter profile, and return the resulting content
+ */
+export async function toggleAt(editor: vscode.TextEditor, line: number, character: number, delimiter?: string): Promise<string> {
+	const position = new vscode.Position(line, character);
+	editor.selection = new vscode.Selection(position, position);
+	await vscode.commands.executeCommand('split-spaced-strings.toggleSplit', delimiter ? { delimiter } : undefined);
+	await wait(100);
+	return editor.document.getText();
+}
+
+/**
+ * Helper to execute the toggle command just inside the first occurrence of a word
+ */
+export async function toggleAtWord(content: string, word: string, language: string = 'typescript'): Promise<string> {
+	const editor = await openEditor(content, language);
+	const position = editor.document.positionAt(content.indexOf(word) + 1);
+	return toggleAt(editor, position.line, position.character);
+}
+
+/**
+ * Helper to split the string at a position in an open editor and merge it
+ * again at mergeAt, which may be computed from the split document
+ */
+export async function roundTrip(
+	editor: vscode.TextEditor,
+	line: number,
+	character: number,
+	mergeAt: vscode.Position | ((document: vscode.TextDocument) => vscode.Position) = new vscode.Position(1, 4)
+): Promise<{ split: string; merged: string }> {
+	const split = await toggleAt(editor, line, character);
+	const target = typeof mergeAt === 'function' ? mergeAt(editor.document) : mergeAt;
+	const merged = await toggleAt(editor, target.line, target.character);
+	return { split, merged };
+}
+
+/**
+ * Helper for roundTrip to merge at the end of the first split line
+ */
+export function atFirstLineEnd(document: vscode.TextDocument): vscode.Position {
+	return document.lineAt(1).range.end;
+}
+
+/**
+ * Helper to update extension settings globally; undefined resets a setting
+ */
+export async function setConfig(settings: { [key: string]: unknown }): Promise<void> {
+	const config = vscode.workspace.getConfiguration('splitSpacedStrings');
+	for (const [key, value] of Object.entries(settings)) {
+		await config.update(key, value, vscode.ConfigurationTarget.Global);
+	}
+}
+
+/**
+ * Helper for suites that compare split output: split lines are indented by
+ * one editor indent level, so pin it to two spaces for the calling suite
+ */
+export function useTwoSpaceIndent(): void {
+	suiteSetup(async () => {
+		await vscode.workspace.getConfiguration('editor').update('tabSize', 2, vscode.ConfigurationTarget.Global);
+	});
+
+	suiteTeardown(async () => {
+		await vscode.workspace.getConfiguration('editor').update('tabSize', undefined, vscode.ConfigurationTarget.Global);
+	});
+}
+
 /**
  * Helper to clean up after each test by closing the active editor
  */
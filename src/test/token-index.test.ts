@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { openEditor, toggleAt, cleanupEditor } from './test-helpers';
+
+suite('String Token Index', () => {
+	teardown(async () => {
+		await cleanupEditor();
+	});
+
+	test('Should find strings shifted by an edit above them', async function() {
+		this.timeout(5000);
+
+		const editor = await openEditor('const a = "one two";\nconst b = "three four";', 'go');
+		await toggleAt(editor, 0, 14);
+		await toggleAt(editor, 2, 5);
+		assert.ok(editor.document.getText().startsWith('const a = "one two";'), 'Round trip should restore first string');
+
+		await editor.edit(editBuilder => {
+			editBuilder.insert(new vscode.Position(0, 0), 'const z = 1;\n');
+		});
+		await toggleAt(editor, 2, 15);
+
+		const lines = editor.document.getText().split('\n');
+		assert.ok(lines.some(l => l.trim() === 'three'), 'Shifted string should be split');
+		assert.ok(lines.some(l => l.trim() === 'four'), 'Shifted string should be split');
+	});
+
+	test('Should pick up a comment typed before a string', async function() {
+		this.timeout(5000);
+
+		const editor = await openEditor("const a = 'one two';\nconst b = \"three four\";", 'go');
+		await toggleAt(editor, 0, 14);
+		await toggleAt(editor, 2, 5);
+
+		await editor.edit(editBuilder => {
+			editBuilder.insert(new vscode.Position(0, 0), "// it's\n");
+		});
+		await toggleAt(editor, 2, 15);
+
+		const lines = editor.document.getText().split('\n');
+		assert.strictEqual(lines[0], "// it's", 'Comment should be unchanged');
+		assert.ok(lines.some(l => l.trim() === 'three'), 'String after new comment should be split');
+	});
+
+	test('Should detect a string typed into an existing document', async function() {
+		this.timeout(5000);
+
+		const editor = await openEditor('const a = 1;\n', 'go');
+		await toggleAt(editor, 0, 3);
+
+		await editor.edit(editBuilder => {
+			editBuilder.insert(new vscode.Position(1, 0), 'const b = "alpha beta";');
+		});
+		await toggleAt(editor, 1, 14);
+
+		const lines = editor.document.getText().split('\n');
+		assert.ok(lines.some(l => l.trim() === 'alpha'), 'New string should be split');
+	});
+});
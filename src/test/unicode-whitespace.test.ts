@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { openEditor, toggleAt, setConfig, testToggle, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Unicode Whitespace', () => {
+	useTwoSpaceIndent();
+
+	teardown(async () => {
+		await cleanupEditor();
+		await setConfig({ whitespace: undefined });
+	});
+
+	test('Should keep no-break spaces inside tokens by default', async () => {
+		const result = await testToggle('const s = "10\u00a0km fast";', 0, 12);
+
+		assert.strictEqual(result, 'const s = `\n  10\u00a0km\n  fast\n`;', 'A no-break space should not split');
+	});
+
+	test('Should split on no-break and ideographic spaces with the unicode policy', async () => {
+		await setConfig({ whitespace: 'unicode' });
+		const result = await testToggle('const s = "10\u00a0km\u3000fast";', 0, 12);
+
+		assert.strictEqual(result, 'const s = `\n  10\n  km\n  fast\n`;');
+	});
+
+	test('Should restore Unicode separators on merge', async () => {
+		await setConfig({ whitespace: 'unicode' });
+		const input = 'const s = "10\u00a0km fast";';
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 12);
+		const merged = await toggleAt(editor, 2, 3);
+
+		assert.strictEqual(merged, input, 'Round trip should keep the no-break space');
+	});
+
+	test('Should map the cursor with the same whitespace policy', async () => {
+		await setConfig({ whitespace: 'unicode' });
+		const editor = await openEditor('const s = "10\u00a0km fast";');
+		await toggleAt(editor, 0, 'const s = "10\u00a0k'.length);
+
+		const cursor = editor.selection.active;
+		assert.strictEqual(cursor.line, 2, 'Cursor should be on the km line');
+		assert.strictEqual(cursor.character, 3, 'Cursor should keep its offset in the word');
+	});
+});
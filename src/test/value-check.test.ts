@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { __test__ } from '../extension';
+import { openEditor, toggleAt, setConfig, cleanupEditor } from './test-helpers';
+
+suite('Value Check', () => {
+	teardown(async () => {
+		await cleanupEditor();
+		await setConfig({ equivalenceCheck: undefined });
+	});
+
+	// A line continuation joins the two words, but the merged single-line
+	// string keeps the backslash as text.
+	const CONTINUED = 's = """\n  alpha\\\n  beta\n"""';
+
+	test('Should cancel a merge that changes the value when set to abort', async () => {
+		await setConfig({ equivalenceCheck: 'abort' });
+		const editor = await openEditor(CONTINUED, 'python');
+
+		const result = await toggleAt(editor, 1, 4);
+
+		assert.strictEqual(result, CONTINUED, 'The merge should not be applied');
+	});
+
+	test('Should apply a merge that changes the value by default', async () => {
+		const editor = await openEditor(CONTINUED, 'python');
+
+		const result = await toggleAt(editor, 1, 4);
+
+		assert.strictEqual(result, 's = """alpha\\ beta"""', 'The warning should not block the merge');
+	});
+
+	test('Should allow toggles that only change whitespace', async () => {
+		await setConfig({ equivalenceCheck: 'abort' });
+		const input = "const s = 'a`b ${c} it\\'s';";
+		const editor = await openEditor(input);
+
+		const split = await toggleAt(editor, 0, 12);
+		assert.notStrictEqual(split, input, 'The split should be applied');
+
+		const merged = await toggleAt(editor, 1, 3);
+		assert.strictEqual(merged, input, 'The merge should be applied');
+	});
+
+	test('Should allow a split that regroups classes by variant when set to abort', async () => {
+		await setConfig({ equivalenceCheck: 'abort', layout: 'groupByVariant' });
+		try {
+			const input = 'const cls = "md:flex p-2 hover:underline flex";';
+			const editor = await openEditor(input);
+
+			const split = await toggleAt(editor, 0, 14);
+
+			assert.notStrictEqual(split, input, 'Regrouping only reorders the classes');
+		} finally {
+			await setConfig({ layout: undefined });
+		}
+	});
+
+	test('Should compare tokens rather than their concatenation', async () => {
+		await setConfig({ equivalenceCheck: 'abort' });
+		// The line continuation joins the two classes into one.
+		const input = 'const cls = `px-2\\\npy-1`;';
+		const editor = await openEditor(input);
+
+		const result = await toggleAt(editor, 1, 2);
+
+		assert.strictEqual(result, input, 'Separating the joined classes changes the value');
+	});
+
+	test('Should skip auto-collapse edits that change the value when set to abort', async () => {
+		await setConfig({ autoCollapseOnSave: true });
+		const warnings: string[] = [];
+		const showWarningMessage = vscode.window.showWarningMessage;
+		Object.assign(vscode.window, {
+			showWarningMessage: async (message: string) => {
+				warnings.push(message);
+				return undefined;
+			}
+		});
+		try {
+			// The split turns the escaped space into a line continuation, which
+			// the default setting allows with a warning.
+			const editor = await openEditor("s = 'alpha\\ beta'", 'python');
+			const split = await toggleAt(editor, 0, 6);
+			assert.notStrictEqual(split, "s = 'alpha\\ beta'", 'The split should be applied');
+
+			await setConfig({ equivalenceCheck: 'abort' });
+			warnings.length = 0;
+			const edits = __test__.applyAutoCollapseOnSave(editor.document, editor);
+
+			assert.strictEqual(edits.length, 0, 'The collapse should not produce an edit');
+			assert.strictEqual(editor.document.getText(), split, 'The document should be unchanged');
+			assert.ok(warnings.some(message => message.startsWith('Merge cancelled')), 'The collapse should be aborted');
+		} finally {
+			Object.assign(vscode.window, { showWarningMessage });
+			await setConfig({ autoCollapseOnSave: undefined });
+		}
+	});
+});
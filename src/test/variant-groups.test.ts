@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { openEditor, toggleAt, setConfig, useTwoSpaceIndent, cleanupEditor } from './test-helpers';
+
+suite('Variant Groups', () => {
+	useTwoSpaceIndent();
+
+	const input = 'const cls = "dark:bg-black p-2 hover:bg-gray-50 md:flex sm:p-4 flex";';
+
+	setup(async () => {
+		await setConfig({ layout: 'groupByVariant' });
+	});
+
+	teardown(async () => {
+		await cleanupEditor();
+		await setConfig({ layout: undefined, variantOrder: undefined });
+	});
+
+	test('Should put base utilities first and each variant group on its own line', async () => {
+		const editor = await openEditor(input);
+		const result = await toggleAt(editor, 0, 14);
+
+		assert.strictEqual(
+			result,
+			'const cls = `\n  p-2 flex\n  md:flex sm:p-4\n  hover:bg-gray-50\n  dark:bg-black\n`;',
+			'Groups should follow the default variant order'
+		);
+	});
+
+	test('Should follow a configured variant order', async () => {
+		await setConfig({ variantOrder: [['dark'], ['hover']] });
+		const editor = await openEditor(input);
+		const result = await toggleAt(editor, 0, 14);
+
+		assert.strictEqual(
+			result,
+			'const cls = `\n  p-2 flex\n  dark:bg-black\n  hover:bg-gray-50\n  md:flex sm:p-4\n`;',
+			'Unlisted variants should go last'
+		);
+	});
+
+	test('Should flatten groups in order on merge', async () => {
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, 14);
+		const merged = await toggleAt(editor, 1, 4);
+
+		assert.strictEqual(
+			merged,
+			'const cls = "p-2 flex md:flex sm:p-4 hover:bg-gray-50 dark:bg-black";',
+			'Merge should keep the grouped order'
+		);
+	});
+
+	test('Should keep the cursor on the same token after regrouping', async () => {
+		const editor = await openEditor(input);
+		await toggleAt(editor, 0, input.indexOf('flex";') + 2);
+
+		const cursor = editor.selection.active;
+		assert.strictEqual(cursor.line, 1, 'Cursor should follow the token to the base line');
+		assert.strictEqual(cursor.character, '  p-2 fl'.length, 'Cursor should keep its offset in the token');
+	});
+
+	test('Should not treat colons inside arbitrary values as variants', async () => {
+		const editor = await openEditor('const cls = "hover:underline [mask-type:luminance]";');
+		const result = await toggleAt(editor, 0, 14);
+
+		assert.strictEqual(
+			result,
+			'const cls = `\n  [mask-type:luminance]\n  hover:underline\n`;',
+			'Arbitrary property should stay with the base utilities'
+		);
+	});
+});
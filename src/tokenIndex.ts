@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { scanStringTokens } from './lexer';
+import { StringToken } from './types';
+
+// Longest delimiter the lexer may need to look ahead over when deciding
+// where a token starts, so a token ending right before an edit is relexed too.
+const MAX_DELIMITER_LOOKAHEAD = 8;
+
+interface TokenIndexEntry {
+	version: number;
+	languageId: string;
+	tokens: StringToken[];
+	pendingChanges: vscode.TextDocumentContentChangeEvent[];
+	pendingVersion: number;
+}
+
+const tokenIndexes = new Map<string, TokenIndexEntry>();
+
+export function getStringTokens(document: vscode.TextDocument): StringToken[] {
+	const uri = document.uri.toString();
+	const entry = tokenIndexes.get(uri);
+
+	if (entry && entry.languageId === document.languageId) {
+		if (entry.version === document.version) {
+			return entry.tokens;
+		}
+		if (entry.pendingChanges.length > 0 && entry.pendingVersion === document.version) {
+			entry.tokens = relexChangedRegion(document, entry.tokens, entry.pendingChanges);
+			entry.version = document.version;
+			entry.pendingChanges = [];
+			return entry.tokens;
+		}
+	}
+
+	const tokens = scanStringTokens(document.getText(), document.languageId);
+	tokenIndexes.set(uri, {
+		version: document.version,
+		languageId: document.languageId,
+		tokens,
+		pendingChanges: [],
+		pendingVersion: document.version
+	});
+	return tokens;
+}
+
+export function recordDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+	const uri = event.document.uri.toString();
+	const entry = tokenIndexes.get(uri);
+	if (!entry || event.contentChanges.length === 0) {
+		return;
+	}
+
+	if (entry.pendingVersion !== event.document.version - 1) {
+		tokenIndexes.delete(uri);
+		return;
+	}
+
+	entry.pendingChanges.push(...event.contentChanges);
+	entry.pendingVersion = event.document.version;
+}
+
+export function clearTokenIndexForUri(uri: string): void {
+	tokenIndexes.delete(uri);
+}
+
+export function clearAllTokenIndexes(): void {
+	tokenIndexes.clear();
+}
+
+function shiftToken(token: StringToken, delta: number): StringToken {
+	return {
+		...token,
+		start: token.start + delta,
+		end: token.end + delta,
+		contentStart: token.contentStart + delta,
+		contentEnd: token.contentEnd + delta,
+		children: token.children && token.children.map(child => shiftToken(child, delta))
+	};
+}
+
+function relexChangedRegion(
+	document: vscode.TextDocument,
+	tokens: StringToken[],
+	changes: readonly vscode.TextDocumentContentChangeEvent[]
+): StringToken[] {
+	let shifted = tokens;
+	let dirtyStart = Number.MAX_VALUE;
+	let dirtyEnd = -1;
+
+	for (const change of changes) {
+		const changeStart = change.rangeOffset;
+		const removedEnd = change.rangeOffset + change.rangeLength;
+		const insertedEnd = change.rangeOffset + change.text.length;
+		const delta = change.text.length - change.rangeLength;
+
+		shifted = shifted
+			.filter(t => t.end <= changeStart || t.start >= removedEnd)
+			.map(t => t.start >= removedEnd ? shiftToken(t, delta) : t);
+
+		if (dirtyEnd >= removedEnd) {
+			dirtyEnd += delta;
+		} else if (dirtyEnd > changeStart) {
+			dirtyEnd = insertedEnd;
+		}
+		dirtyStart = Math.min(dirtyStart, changeStart);
+		dirtyEnd = Math.max(dirtyEnd, insertedEnd);
+	}
+
+	// Quotes and regex literals that cannot span lines are decided by the
+	// rest of their line, so relexing starts no later than the line start.
+	const text = document.getText();
+	const lineStart = text.lastIndexOf('\n', dirtyStart - 1) + 1;
+	let restartIndex = 0;
+	while (restartIndex < shifted.length &&
+		shifted[restartIndex].end + MAX_DELIMITER_LOOKAHEAD <= lineStart) {
+		restartIndex++;
+	}
+	const restartOffset = restartIndex > 0 ? shifted[restartIndex - 1].end : 0;
+
+	const oldTokensByStart = new Map<number, number>();
+	for (let i = restartIndex; i < shifted.length; i++) {
+		if (shifted[i].start >= dirtyEnd) {
+			oldTokensByStart.set(shifted[i].start, i);
+		}
+	}
+
+	let syncIndex = -1;
+	const relexed = scanStringTokens(text, document.languageId, restartOffset, token => {
+		const oldIndex = oldTokensByStart.get(token.start);
+		if (oldIndex === undefined) {
+			return false;
+		}
+		const old = shifted[oldIndex];
+		if (old.end !== token.end || old.quote !== token.quote || old.prefix !== token.prefix) {
+			return false;
+		}
+		syncIndex = oldIndex;
+		return true;
+	});
+
+	const tail = syncIndex === -1 ? [] : shifted.slice(syncIndex);
+	return [...shifted.slice(0, restartIndex), ...relexed, ...tail];
+}
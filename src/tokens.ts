@@ -0,0 +1,106 @@
+export interface TextRange {
+	start: number;
+	end: number;
+}
+
+const CLOSING_BRACKETS: { [open: string]: string } = { '[': ']', '(': ')', '{': '}' };
+const QUOTES = '"\'`';
+
+// A quote only opens a group at the start of a token or right after a
+// bracket or operator, so apostrophes inside words stay literal.
+function opensQuoteGroup(text: string, index: number): boolean {
+	return index === 0 || !/[\w\\]/.test(text[index - 1]);
+}
+
+function findGroupedSeparators(text: string, pattern: RegExp): TextRange[] | null {
+	const separator = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+	const separators: TextRange[] = [];
+	const closers: string[] = [];
+	let quote: string | null = null;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quote) {
+			if (char === '\\') {
+				i++;
+			} else if (char === quote) {
+				quote = null;
+			}
+			continue;
+		}
+		if (QUOTES.includes(char) && opensQuoteGroup(text, i) && text.indexOf(char, i + 1) !== -1) {
+			quote = char;
+			continue;
+		}
+		if (CLOSING_BRACKETS[char]) {
+			closers.push(CLOSING_BRACKETS[char]);
+			continue;
+		}
+		if (closers.length > 0) {
+			if (char === closers[closers.length - 1]) {
+				closers.pop();
+			}
+			continue;
+		}
+
+		separator.lastIndex = i;
+		const match = separator.exec(text);
+		if (match && match[0].length > 0) {
+			separators.push({ start: i, end: i + match[0].length });
+			i += match[0].length - 1;
+		}
+	}
+
+	return closers.length === 0 && !quote ? separators : null;
+}
+
+function findPlainSeparators(text: string, pattern: RegExp): TextRange[] {
+	const separator = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+	const separators: TextRange[] = [];
+	let match: RegExpExecArray | null;
+
+	while ((match = separator.exec(text)) !== null) {
+		if (match[0].length === 0) {
+			separator.lastIndex++;
+			continue;
+		}
+		separators.push({ start: match.index, end: match.index + match[0].length });
+	}
+
+	return separators;
+}
+
+/**
+ * Finds separator matches that are not inside a bracket, parenthesis, brace
+ * or quote group, so values like `grid-cols-[repeat(2, 1fr)]` stay whole.
+ * Text with an unbalanced group is split without grouping.
+ */
+export function findSeparators(text: string, pattern: RegExp): TextRange[] {
+	return findGroupedSeparators(text, pattern) ?? findPlainSeparators(text, pattern);
+}
+
+export function splitTokenRanges(text: string, pattern: RegExp): TextRange[] {
+	const ranges: TextRange[] = [];
+	let start = 0;
+	for (const separator of findSeparators(text, pattern)) {
+		ranges.push({ start, end: separator.start });
+		start = separator.end;
+	}
+	ranges.push({ start, end: text.length });
+	return ranges;
+}
+
+export function getTokenRanges(text: string, whitespace: RegExp): TextRange[] {
+	return splitTokenRanges(text, whitespace).filter(range => range.end > range.start);
+}
+
+export function getTokens(text: string, whitespace: RegExp): string[] {
+	return getTokenRanges(text, whitespace).map(range => text.substring(range.start, range.end));
+}
+
+export function trimWhitespace(text: string, whitespace: RegExp): string {
+	return text
+		.replace(new RegExp(`^(?:${whitespace.source})`), '')
+		.replace(new RegExp(`(?:${whitespace.source})$`), '');
+}
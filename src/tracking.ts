@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { findQuotePositionInLine } from './parsing';
+import { findStringNearPosition } from './parsing';
 import { mergeString } from './splitMerge';
 import { StringInfo, TrackedString } from './types';
 
@@ -50,7 +50,7 @@ export function findTrackedStringMatch(
 		return undefined;
 	}
 
-	const endChar = stringInfo.end.character - stringInfo.quote.length;
+	const endChar = stringInfo.end.character - stringInfo.closeQuote.length;
 	return tracked.find(t =>
 		t.startLine === stringInfo.start.line &&
 		t.endLine === stringInfo.end.line &&
@@ -70,7 +70,7 @@ export function trackString(document: vscode.TextDocument, stringInfo: StringInf
 		!(t.startLine === stringInfo.start.line &&
 			t.endLine === stringInfo.end.line &&
 			t.startChar === stringInfo.start.character &&
-			t.endChar === stringInfo.end.character - stringInfo.quote.length)
+			t.endChar === stringInfo.end.character - stringInfo.closeQuote.length)
 	);
 
 	const contentHash = stringInfo.content.trim().replace(/\s+/g, ' ');
@@ -80,11 +80,13 @@ export function trackString(document: vscode.TextDocument, stringInfo: StringInf
 		startLine: stringInfo.start.line,
 		startChar: stringInfo.start.character,
 		endLine: stringInfo.end.line,
-		endChar: stringInfo.end.character - stringInfo.quote.length,
+		endChar: stringInfo.end.character - stringInfo.closeQuote.length,
 		quote: stringInfo.quote,
 		content: stringInfo.content,
 		contentHash,
-		originalQuote: stringInfo.originalQuote
+		originalQuote: stringInfo.originalQuote,
+		separator: stringInfo.separator,
+		whitespace: stringInfo.whitespace
 	});
 
 	trackedStrings.set(uri, filtered);
@@ -101,7 +103,7 @@ export function untrackString(document: vscode.TextDocument, stringInfo: StringI
 		t.startLine !== stringInfo.start.line ||
 		t.endLine !== stringInfo.end.line ||
 		t.startChar !== stringInfo.start.character ||
-		t.endChar !== stringInfo.end.character - stringInfo.quote.length
+		t.endChar !== stringInfo.end.character - stringInfo.closeQuote.length
 	);
 
 	if (filtered.length === 0) {
@@ -142,43 +144,17 @@ function findTrackedStringsInDocument(document: vscode.TextDocument): StringInfo
 		}
 
 		try {
-			const startLineText = document.lineAt(t.startLine).text;
-			const endLineText = document.lineAt(t.endLine).text;
-
-			const startQuotePos = findQuotePositionInLine(startLineText, t.quote, t.startChar, 'start');
-			const endQuotePos = findQuotePositionInLine(endLineText, t.quote, t.endChar, 'end');
-
-			if (startQuotePos === -1 || endQuotePos === -1) {
+			const stringInfo = findStringNearPosition(document, t.startLine, t.startChar, t.quote, 'start');
+			if (!stringInfo) {
 				continue;
 			}
 
-			const quoteLength = t.quote.length;
-
-			let content = '';
-			for (let lineNum = t.startLine; lineNum <= t.endLine; lineNum++) {
-				const lineText = document.lineAt(lineNum).text;
-				if (lineNum === t.startLine && lineNum === t.endLine) {
-					content = lineText.substring(startQuotePos + quoteLength, endQuotePos);
-				} else if (lineNum === t.startLine) {
-					content = lineText.substring(startQuotePos + quoteLength) + '\n';
-				} else if (lineNum === t.endLine) {
-					content += lineText.substring(0, endQuotePos);
-				} else {
-					content += lineText + '\n';
-				}
-			}
-
-			const currentHash = content.trim().replace(/\s+/g, ' ');
-			if ((t.startLine !== t.endLine || content.includes('\n')) &&
-				currentHash === t.contentHash) {
-				result.push({
-					start: new vscode.Position(t.startLine, startQuotePos),
-					end: new vscode.Position(t.endLine, endQuotePos + quoteLength),
-					quote: t.quote,
-					content,
-					isMultiline: true,
-					originalQuote: t.originalQuote
-				});
+			const currentHash = stringInfo.content.trim().replace(/\s+/g, ' ');
+			if (stringInfo.isMultiline && currentHash === t.contentHash) {
+				stringInfo.originalQuote = t.originalQuote;
+				stringInfo.separator = t.separator;
+				stringInfo.whitespace = t.whitespace;
+				result.push(stringInfo);
 			}
 		} catch (e) {
 			continue;
@@ -196,6 +172,9 @@ export function collapseTrackedStrings(document: vscode.TextDocument): vscode.Te
 
 	for (const stringInfo of strings) {
 		const newText = mergeString(stringInfo, document);
+		if (newText === null) {
+			continue;
+		}
 		const range = new vscode.Range(stringInfo.start, stringInfo.end);
 		edits.push(vscode.TextEdit.replace(range, newText));
 	}
@@ -247,9 +226,9 @@ export function updateTrackedStringsOnDocumentChange(
 	}
 
 	for (const change of event.contentChanges) {
-		const lineDelta = change.text.split('\n').length - 1 - (change.range.end.line - change.range.start.line);
+		const lineDelta = change.text.split(/\r\n|\r|\n/).length - 1 - (change.range.end.line - change.range.start.line);
 		const isSingleLineChange = change.range.start.line === change.range.end.line &&
-			change.text.indexOf('\n') === -1;
+			!/[\r\n]/.test(change.text);
 		const charDelta = isSingleLineChange
 			? change.text.length - (change.range.end.character - change.range.start.character)
 			: 0;
@@ -258,11 +237,9 @@ export function updateTrackedStringsOnDocumentChange(
 			let isChangeAfterString = false;
 			if (change.range.start.line === t.endLine && change.range.end.line === t.endLine) {
 				try {
-					const endLineText = event.document.lineAt(t.endLine).text;
-					const endQuotePos = findQuotePositionInLine(endLineText, t.quote, t.endChar, 'end');
+					const stringInfo = findStringNearPosition(event.document, t.endLine, t.endChar, t.quote, 'end');
 
-					if (endQuotePos !== -1 &&
-						change.range.start.character > endQuotePos + t.quote.length - 1) {
+					if (stringInfo && change.range.start.character > stringInfo.end.character - 1) {
 						isChangeAfterString = true;
 					}
 				} catch (e) {
@@ -307,37 +284,16 @@ export function updateTrackedStringsOnDocumentChange(
 		}
 
 		try {
-			const startLineText = event.document.lineAt(t.startLine).text;
-			const startQuotePos = findQuotePositionInLine(startLineText, t.quote, t.startChar, 'start');
-			if (startQuotePos === -1) {
+			const stringInfo = findStringNearPosition(event.document, t.startLine, t.startChar, t.quote, 'start');
+			if (!stringInfo) {
 				continue;
 			}
 
-			const endLineText = event.document.lineAt(t.endLine).text;
-			const endQuotePos = findQuotePositionInLine(endLineText, t.quote, t.endChar, 'end');
-			if (endQuotePos === -1) {
-				continue;
-			}
-
-			const quoteLength = t.quote.length;
-			let content = '';
-			for (let lineNum = t.startLine; lineNum <= t.endLine; lineNum++) {
-				const lineText = event.document.lineAt(lineNum).text;
-				if (lineNum === t.startLine && lineNum === t.endLine) {
-					content = lineText.substring(startQuotePos + quoteLength, endQuotePos);
-				} else if (lineNum === t.startLine) {
-					content = lineText.substring(startQuotePos + quoteLength) + '\n';
-				} else if (lineNum === t.endLine) {
-					content += lineText.substring(0, endQuotePos);
-				} else {
-					content += lineText + '\n';
-				}
-			}
-
-			t.startChar = startQuotePos;
-			t.endChar = endQuotePos;
-			t.content = content;
-			t.contentHash = content.trim().replace(/\s+/g, ' ');
+			t.startChar = stringInfo.start.character;
+			t.endLine = stringInfo.end.line;
+			t.endChar = stringInfo.end.character - stringInfo.closeQuote.length;
+			t.content = stringInfo.content;
+			t.contentHash = stringInfo.content.trim().replace(/\s+/g, ' ');
 		} catch (e) {
 			console.log('[Split Spaced Strings] Error updating tracked string:', e);
 		}
@@ -4,9 +4,16 @@ export interface StringInfo {
 	start: vscode.Position;
 	end: vscode.Position;
 	quote: string;
+	closeQuote: string;
+	prefix: string;
 	content: string;
 	isMultiline: boolean;
 	originalQuote?: string;
+	separator?: string;
+	kind?: StringKind;
+	parentKind?: string;
+	splitDelimiters?: { opening: string; closing: string };
+	whitespace?: RecordedWhitespace;
 }
 
 export interface TrackedString {
@@ -19,11 +26,71 @@ export interface TrackedString {
 	content: string;
 	contentHash: string;
 	originalQuote?: string;
+	separator?: string;
+	whitespace?: RecordedWhitespace;
 }
 
 export interface QuoteRules {
 	multilineQuotes: string[];
 	preferredMultilineQuote: string;
-	hasSpecialFeatures: (content: string, quote: string) => boolean;
+	hasSpecialFeatures: (content: string, quote: string, prefix: string) => boolean;
 	allowsMultilineInRegularQuotes: boolean;
+	toMultilineForm?: (form: LiteralForm) => LiteralForm | null;
+	toSingleLineForm?: (form: LiteralForm, originalQuote: string | undefined) => LiteralForm;
+	toHeredocForm?: (form: LiteralForm) => LiteralForm | null;
+	multilineOpenerEndsLine?: boolean;
+}
+
+export interface LiteralForm {
+	prefix: string;
+	quote: string;
+	closeQuote: string;
+	content: string;
+	continuesOpenerLine?: boolean;
+	closeAtLineStart?: boolean;
+	openerEndsLine?: boolean;
+	closerOwnsLine?: boolean;
+}
+
+export interface CommentSyntax {
+	lineComments: string[];
+	blockComments: [string, string][];
+	longBracketComments?: string[];
+	lineCommentsAtWordStart: boolean;
+}
+
+export interface StringToken {
+	start: number;
+	end: number;
+	quote: string;
+	closeQuote: string;
+	prefix: string;
+	contentStart: number;
+	contentEnd: number;
+	children?: StringToken[];
+	kind?: StringKind;
+	parentKind?: string;
+}
+
+export type StringKind = 'stringLiteral' | 'noSubstitutionTemplate' | 'templateExpression' | 'jsxText';
+
+export interface EmbeddedRegion {
+	languageId: string;
+	start: number;
+	end: number;
+	outerStart: number;
+	outerEnd: number;
+}
+
+export interface RecordedWhitespace {
+	leading: string;
+	trailing: string;
+	separators: string[];
+	items: string[];
+}
+
+export interface DelimiterProfile {
+	pattern: RegExp;
+	separator: string;
+	whitespace: RegExp;
 }